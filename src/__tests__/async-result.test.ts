@@ -0,0 +1,196 @@
+import { describe, it, expect } from "vitest";
+import {
+  ok,
+  err,
+  okAsync,
+  errAsync,
+  fromPromise,
+  genAsync,
+  tryPromise,
+  AsyncResult,
+  AsyncResultFactory,
+  type Result,
+} from "../index";
+
+describe("AsyncResult", () => {
+  describe("construction", () => {
+    it("should be awaitable", async () => {
+      const result = await okAsync(42);
+      expect(result.isOk()).toBe(true);
+      expect(result.unwrap()).toBe(42);
+    });
+
+    it("should create Err values", async () => {
+      const result = await errAsync("error");
+      expect(result.isErr()).toBe(true);
+      expect(result.expectErr("should error")).toBe("error");
+    });
+
+    it("should be returned by fromPromise", async () => {
+      const resolved = fromPromise(Promise.resolve(42));
+      const rejected = fromPromise(Promise.reject(new Error("failed")));
+
+      expect(resolved).toBeInstanceOf(AsyncResult);
+      expect(await resolved.unwrap()).toBe(42);
+      expect((await rejected.expectErr("should error")).message).toBe("failed");
+    });
+
+    it("should be returned by tryPromise", async () => {
+      const result = tryPromise({
+        try: async () => "value",
+      });
+
+      expect(result).toBeInstanceOf(AsyncResult);
+      expect(await result.unwrap()).toBe("value");
+    });
+
+    it("should be usable where a Promise<Result> is expected", async () => {
+      const events: string[] = [];
+      const promise: Promise<Result<number, Error>> = fromPromise(
+        Promise.resolve(1)
+      );
+
+      const result = await promise.finally(() => events.push("finally"));
+      const caught = await new AsyncResult<number, string>(
+        Promise.reject(new Error("boom"))
+      ).catch((error) => (error as Error).message);
+
+      expect(result.unwrap()).toBe(1);
+      expect(events).toEqual(["finally"]);
+      expect(caught).toBe("boom");
+      expect(Object.prototype.toString.call(promise)).toBe(
+        "[object AsyncResult]"
+      );
+    });
+
+    it("should lift sync and async Results", async () => {
+      expect(await AsyncResultFactory.fromResult(ok(1)).unwrap()).toBe(1);
+      expect(
+        await AsyncResultFactory.fromResult(Promise.resolve(err("e"))).isErr()
+      ).toBe(true);
+    });
+  });
+
+  describe("chaining", () => {
+    it("should map with sync and async functions", async () => {
+      const result = await okAsync(2)
+        .map((x) => x * 2)
+        .map(async (x) => x + 1);
+
+      expect(result.unwrap()).toBe(5);
+    });
+
+    it("should not map Err values", async () => {
+      let called = false;
+      const result = await errAsync<number, string>("error").map((x) => {
+        called = true;
+        return x * 2;
+      });
+
+      expect(called).toBe(false);
+      expect(result.expectErr("should error")).toBe("error");
+    });
+
+    it("should mapErr with sync and async functions", async () => {
+      const result = await errAsync("error")
+        .mapErr((e) => e.toUpperCase())
+        .mapErr(async (e) => `${e}!`);
+
+      expect(result.expectErr("should error")).toBe("ERROR!");
+    });
+
+    it("should flatMap sync Results, Promises and AsyncResults", async () => {
+      const result = await okAsync(1)
+        .flatMap((x) => ok(x + 1))
+        .flatMap(async (x) => ok(x + 1))
+        .flatMap((x) => okAsync(x + 1));
+
+      expect(result.unwrap()).toBe(4);
+    });
+
+    it("should short-circuit flatMap on Err", async () => {
+      const result = await okAsync(1)
+        .flatMap(() => errAsync("failed"))
+        .flatMap((x) => ok(x + 1));
+
+      expect(result.expectErr("should error")).toBe("failed");
+    });
+
+    it("should handle and/or operations", async () => {
+      expect(await okAsync<number, string>(1).and(ok(2)).unwrap()).toBe(2);
+      expect(await errAsync<number, string>("e").and(ok(2)).isErr()).toBe(true);
+      expect(await errAsync<number, string>("e").or(okAsync(3)).unwrap()).toBe(
+        3
+      );
+      expect(await okAsync<number, string>(1).or(ok(3)).unwrap()).toBe(1);
+    });
+
+    it("should flatten a nested Result", async () => {
+      expect((await okAsync(ok(1)).flatten()).unwrap()).toBe(1);
+      expect(
+        (await okAsync(err("inner")).flatten()).expectErr("should error")
+      ).toBe("inner");
+      expect(
+        (
+          await errAsync<Result<number, string>, string>("outer").flatten()
+        ).expectErr("should error")
+      ).toBe("outer");
+    });
+  });
+
+  describe("extracting values", () => {
+    it("should match on the settled result", async () => {
+      const matched = await errAsync<number, string>("error").match({
+        ok: (x) => `value ${x}`,
+        err: async (e) => `error ${e}`,
+      });
+
+      expect(matched).toBe("error error");
+    });
+
+    it("should unwrapOr and unwrapOrElse", async () => {
+      expect(await errAsync<number, string>("e").unwrapOr(7)).toBe(7);
+      expect(
+        await errAsync<number, string>("abc").unwrapOrElse(
+          async (e) => e.length
+        )
+      ).toBe(3);
+      expect(await okAsync(1).unwrapOr(7)).toBe(1);
+    });
+
+    it("should convert to an Option with okOption and errOption", async () => {
+      expect((await okAsync(1).okOption()).unwrap()).toBe(1);
+      expect((await okAsync(1).errOption()).isNone()).toBe(true);
+      expect((await errAsync("e").errOption()).unwrap()).toBe("e");
+      expect((await errAsync("e").okOption()).isNone()).toBe(true);
+    });
+
+    it("should reject when unwrapping an Err", async () => {
+      await expect(errAsync("error").unwrap()).rejects.toThrow();
+      await expect(errAsync("error").expect("custom")).rejects.toThrow(
+        "custom"
+      );
+    });
+  });
+
+  describe("generator support", () => {
+    it("should be unwrapped with yield* inside genAsync", async () => {
+      const calculate = genAsync(async function* () {
+        const a = yield* okAsync(10);
+        const b = yield* fromPromise(Promise.resolve(5));
+        return ok(a + b);
+      });
+
+      expect((await calculate()).unwrap()).toBe(15);
+    });
+
+    it("should propagate Err values inside genAsync", async () => {
+      const calculate = genAsync(async function* () {
+        const a = yield* errAsync<number, string>("failed");
+        return ok(a);
+      });
+
+      expect((await calculate()).expectErr("should error")).toBe("failed");
+    });
+  });
+});
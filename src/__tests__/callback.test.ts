@@ -0,0 +1,143 @@
+import { EventEmitter } from "node:events";
+import { describe, it, expect } from "vitest";
+import {
+  AbortError,
+  fromCallback,
+  fromEvent,
+  resultify,
+  type Result,
+} from "../index";
+
+const lookup = (
+  id: number,
+  prefix: string,
+  callback: (error: Error | null, name?: string) => void
+) => {
+  setTimeout(() => {
+    if (id < 0) {
+      callback(new Error(`invalid id ${id}`));
+    } else {
+      callback(null, `${prefix}${id}`);
+    }
+  }, 0);
+};
+
+describe("fromCallback", () => {
+  it("should resolve with Ok when the callback gets a value", async () => {
+    const result = await fromCallback<string | undefined>((done) =>
+      lookup(1, "user-", done)
+    );
+
+    expect(result.unwrap()).toBe("user-1");
+  });
+
+  it("should resolve with Err when the callback gets an error", async () => {
+    const result = await fromCallback((done) => lookup(-1, "user-", done));
+
+    expect(result.isErr() && result.error.message).toBe("invalid id -1");
+  });
+
+  it("should treat a thrown error as Err", async () => {
+    const result = await fromCallback(() => {
+      throw new Error("sync failure");
+    });
+
+    expect(result.isErr() && result.error.message).toBe("sync failure");
+  });
+
+  it("should ignore calls after the first", async () => {
+    const result = await fromCallback<number>((done) => {
+      done(null, 1);
+      done(new Error("late"), 2);
+    });
+
+    expect(result.unwrap()).toBe(1);
+  });
+});
+
+describe("resultify", () => {
+  it("should infer the arguments and value of the wrapped function", async () => {
+    const lookupResult = resultify(lookup);
+    const result: Result<string | undefined, Error> = await lookupResult(
+      2,
+      "admin-"
+    );
+
+    expect(result.unwrap()).toBe("admin-2");
+    expect((await lookupResult(-2, "admin-")).isErr()).toBe(true);
+  });
+
+  it("should keep a bound receiver", async () => {
+    const store = {
+      prefix: "item-",
+      get(id: number, callback: (error: Error | null, value: string) => void) {
+        callback(null, `${this.prefix}${id}`);
+      },
+    };
+
+    const get = resultify(store.get.bind(store));
+
+    expect((await get(3)).unwrap()).toBe("item-3");
+  });
+});
+
+describe("fromEvent", () => {
+  it("should resolve with the first argument of the event", async () => {
+    const emitter = new EventEmitter();
+    const pending = fromEvent<number>(emitter, "done");
+
+    emitter.emit("done", 42, "ignored");
+
+    expect((await pending).unwrap()).toBe(42);
+    expect(emitter.listenerCount("done")).toBe(0);
+    expect(emitter.listenerCount("error")).toBe(0);
+  });
+
+  it("should resolve with Err on the error event", async () => {
+    const emitter = new EventEmitter();
+    const pending = fromEvent(emitter, "done");
+
+    emitter.emit("error", new Error("boom"));
+
+    const result = await pending;
+    expect(result.isErr() && result.error).toEqual(new Error("boom"));
+    expect(emitter.listenerCount("done")).toBe(0);
+  });
+
+  it("should support a custom error event", async () => {
+    const emitter = new EventEmitter();
+    const pending = fromEvent<string, string>(emitter, "ready", {
+      errorEvent: "failed",
+    });
+
+    emitter.emit("failed", "no connection");
+
+    expect((await pending).isErr()).toBe(true);
+    expect(emitter.listenerCount("failed")).toBe(0);
+  });
+
+  it("should stop waiting when the signal aborts", async () => {
+    const emitter = new EventEmitter();
+    const controller = new AbortController();
+    const pending = fromEvent(emitter, "done", { signal: controller.signal });
+
+    controller.abort("cancelled");
+
+    const result = await pending;
+    expect(result.isErr() && result.error).toBeInstanceOf(AbortError);
+    expect(result.isErr() && (result.error as AbortError).cause).toBe(
+      "cancelled"
+    );
+    expect(emitter.listenerCount("done")).toBe(0);
+  });
+
+  it("should resolve with Err right away when the signal is already aborted", async () => {
+    const emitter = new EventEmitter();
+    const result = await fromEvent(emitter, "done", {
+      signal: AbortSignal.abort(),
+    });
+
+    expect(result.isErr() && result.error).toBeInstanceOf(AbortError);
+    expect(emitter.listenerCount("done")).toBe(0);
+  });
+});
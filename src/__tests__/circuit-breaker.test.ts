@@ -0,0 +1,179 @@
+import { describe, it, expect } from "vitest";
+import {
+  ok,
+  err,
+  circuitBreaker,
+  CircuitOpenError,
+  type CircuitStateChange,
+  type Clock,
+  type Result,
+} from "../index";
+
+const createManualClock = () => {
+  let now = 0;
+  const clock: Clock = {
+    now: () => now,
+    setTimeout: () => undefined,
+    clearTimeout: () => undefined,
+  };
+  return {
+    clock,
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+};
+
+type HttpError = { status: number };
+
+const createDependency = () => {
+  const dependency = {
+    calls: 0,
+    next: ok<string, HttpError>("pong") as Result<string, HttpError>,
+    call: async (): Promise<Result<string, HttpError>> => {
+      dependency.calls++;
+      return dependency.next;
+    },
+  };
+  return dependency;
+};
+
+describe("circuitBreaker", () => {
+  it("should pass results through while closed", async () => {
+    const dependency = createDependency();
+    const breaker = circuitBreaker(dependency.call);
+
+    expect((await breaker()).unwrap()).toBe("pong");
+    expect(breaker.state).toBe("closed");
+  });
+
+  it("should open after consecutive failures and short-circuit calls", async () => {
+    const { clock } = createManualClock();
+    const dependency = createDependency();
+    const breaker = circuitBreaker(dependency.call, {
+      failureThreshold: 2,
+      resetTimeoutMs: 1000,
+      clock,
+    });
+    dependency.next = err({ status: 503 });
+
+    await breaker();
+    await breaker();
+    const result = await breaker();
+
+    expect(breaker.state).toBe("open");
+    expect(dependency.calls).toBe(2);
+    const error = result.expectErr("should error");
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect((error as CircuitOpenError).retryAfterMs).toBe(1000);
+  });
+
+  it("should reset the failure count after a success", async () => {
+    const dependency = createDependency();
+    const breaker = circuitBreaker(dependency.call, { failureThreshold: 2 });
+
+    dependency.next = err({ status: 503 });
+    await breaker();
+    dependency.next = ok("pong");
+    await breaker();
+    dependency.next = err({ status: 503 });
+    await breaker();
+
+    expect(breaker.state).toBe("closed");
+  });
+
+  it("should only count errors accepted by isFailure", async () => {
+    const dependency = createDependency();
+    const breaker = circuitBreaker(dependency.call, {
+      failureThreshold: 1,
+      isFailure: (error) => error.status >= 500,
+    });
+    dependency.next = err({ status: 404 });
+
+    await breaker();
+    await breaker();
+
+    expect(breaker.state).toBe("closed");
+    expect(dependency.calls).toBe(2);
+  });
+
+  it("should close after successful trial calls when half-open", async () => {
+    const { clock, advance } = createManualClock();
+    const dependency = createDependency();
+    const breaker = circuitBreaker(dependency.call, {
+      failureThreshold: 1,
+      resetTimeoutMs: 1000,
+      halfOpenMaxCalls: 2,
+      clock,
+    });
+    const changes: CircuitStateChange[] = [];
+    breaker.onStateChange((change) => changes.push(change));
+
+    dependency.next = err({ status: 503 });
+    await breaker();
+    advance(1000);
+    expect(breaker.state).toBe("half-open");
+
+    dependency.next = ok("pong");
+    const [first, second, rejected] = await Promise.all([
+      breaker(),
+      breaker(),
+      breaker(),
+    ] as const);
+
+    expect(first.unwrap()).toBe("pong");
+    expect(second.unwrap()).toBe("pong");
+    expect(rejected.expectErr("should error")).toBeInstanceOf(CircuitOpenError);
+    expect(breaker.state).toBe("closed");
+    expect(changes).toEqual([
+      { from: "closed", to: "open" },
+      { from: "open", to: "half-open" },
+      { from: "half-open", to: "closed" },
+    ]);
+  });
+
+  it("should reopen when a trial call fails", async () => {
+    const { clock, advance } = createManualClock();
+    const dependency = createDependency();
+    const breaker = circuitBreaker(dependency.call, {
+      failureThreshold: 1,
+      resetTimeoutMs: 1000,
+      clock,
+    });
+    dependency.next = err({ status: 503 });
+
+    await breaker();
+    advance(1000);
+    await breaker();
+
+    expect(breaker.state).toBe("open");
+    expect(dependency.calls).toBe(2);
+  });
+
+  it("should count rejections as failures", async () => {
+    const breaker = circuitBreaker(
+      async (): Promise<Result<string, HttpError>> => {
+        throw new Error("socket hang up");
+      },
+      { failureThreshold: 1 }
+    );
+
+    await expect(breaker()).rejects.toThrow("socket hang up");
+    expect(breaker.state).toBe("open");
+  });
+
+  it("should close on reset and stop notifying removed listeners", async () => {
+    const dependency = createDependency();
+    const breaker = circuitBreaker(dependency.call, { failureThreshold: 1 });
+    const changes: CircuitStateChange[] = [];
+    const unsubscribe = breaker.onStateChange((change) => changes.push(change));
+    dependency.next = err({ status: 503 });
+
+    await breaker();
+    unsubscribe();
+    breaker.reset();
+
+    expect(breaker.state).toBe("closed");
+    expect(changes).toEqual([{ from: "closed", to: "open" }]);
+  });
+});
@@ -0,0 +1,182 @@
+import { afterEach, describe, it, expect } from "vitest";
+import {
+  configure,
+  err,
+  fromPromise,
+  none,
+  ok,
+  Err,
+  ExpectError,
+  NoneUnwrapError,
+  RetryError,
+  RetryPolicy,
+  tryPromise,
+  UnwrapError,
+  type ConfigureOptions,
+} from "../index";
+
+describe("configure", () => {
+  let previous: ConfigureOptions | undefined;
+
+  const setup = (options: ConfigureOptions) => {
+    const replaced = configure(options);
+    previous ??= replaced;
+  };
+
+  afterEach(() => {
+    if (previous) {
+      configure(previous);
+      previous = undefined;
+    }
+  });
+
+  it("should not record anything by default", () => {
+    const result = new Err("boom");
+
+    expect(result.creationStack).toBeUndefined();
+    expect("creationStack" in result).toBe(false);
+    expect(() => result.unwrap()).toThrow(
+      'Called unwrap on an Err value: "boom"'
+    );
+  });
+
+  it("should record where an Err was created", () => {
+    setup({ captureStack: true });
+
+    const createFailure = () => err("boom");
+    const result = createFailure();
+
+    const firstFrame = result.isErr() && result.creationStack?.split("\n")[0];
+    expect(firstFrame).toContain("createFailure");
+    expect(firstFrame).toContain("config.test.ts");
+  });
+
+  it("should keep the creation stack through derived Errs", () => {
+    setup({ captureStack: true });
+
+    const original = new Err<number, string>("boom");
+    const derived = original
+      .map((x) => x + 1)
+      .mapErr((e) => e.toUpperCase())
+      .context("loading");
+
+    expect(derived.isErr() && derived.creationStack).toBe(
+      original.creationStack
+    );
+  });
+
+  it("should record where okOr turned a None into an Err", () => {
+    setup({ captureStack: true });
+
+    const requireValue = () => none<number>().okOr("missing");
+    const result = requireValue();
+
+    const firstFrame = result.isErr() && result.creationStack?.split("\n")[0];
+    expect(firstFrame).toContain("requireValue");
+  });
+
+  it("should include the creation stack in unwrap and expect errors", () => {
+    setup({ captureStack: true });
+
+    const createFailure = () => err<number, string>("boom");
+    const result = createFailure();
+
+    expect(() => result.unwrap()).toThrow(UnwrapError);
+    expect(() => result.unwrap()).toThrow(
+      /Err created at:\n\s*at createFailure/
+    );
+    expect(() => result.expect("needed a value")).toThrow(
+      /^needed a value: "boom"\nErr created at:\n\s*at createFailure/
+    );
+  });
+
+  it("should call onErr once per new Err", () => {
+    const seen: unknown[] = [];
+    setup({ onErr: (result) => seen.push(result.error) });
+
+    const result = err<number, string>("boom")
+      .map((x) => x * 2)
+      .mapErr((e) => `${e}!`);
+
+    expect(result.isErr()).toBe(true);
+    expect(ok(1).isOk()).toBe(true);
+    expect(seen).toEqual(["boom"]);
+  });
+
+  it("should call onErr for every Err built with the constructor", () => {
+    const seen: unknown[] = [];
+    setup({ onErr: (result) => seen.push(result.error) });
+
+    const first = new Err("first");
+    // @ts-expect-error the constructor takes only the error
+    const second = new Err("second", first);
+
+    expect(second.error).toBe("second");
+    expect(seen).toEqual(["first", "second"]);
+  });
+
+  it("should not call onErr again for AsyncResult combinators", async () => {
+    const seen: unknown[] = [];
+    setup({ onErr: (result) => seen.push(result.error) });
+
+    const result = await fromPromise(Promise.reject(new Error("boom")))
+      .map((x) => x)
+      .mapErr((e) => String(e));
+
+    expect(result.isErr()).toBe(true);
+    expect(seen).toHaveLength(1);
+  });
+
+  it("should call onErr with the error tryPromise returns", async () => {
+    const seen: unknown[] = [];
+    setup({ onErr: (result) => seen.push(result.error) });
+
+    const failing = async () => {
+      throw new TypeError("bad input");
+    };
+    const once = await tryPromise({ try: failing });
+    const retried = await tryPromise({
+      try: failing,
+      retry: { times: 1, delayMs: 0 },
+    });
+    const withPolicy = await tryPromise({
+      try: failing,
+      retry: new RetryPolicy({ times: 1 }),
+    });
+
+    expect(seen).toHaveLength(3);
+    expect(seen[0]).toBe(once.isErr() && once.error);
+    expect(seen[0]).toBeInstanceOf(TypeError);
+    expect(seen[1]).toBe(retried.isErr() && retried.error);
+    expect(seen[1]).toBeInstanceOf(TypeError);
+    expect(seen[2]).toBe(withPolicy.isErr() && withPolicy.error);
+    expect(seen[2]).toBeInstanceOf(RetryError);
+  });
+
+  it("should call onUnwrapPanic before unwrap panics are thrown", () => {
+    const panics: Error[] = [];
+    setup({ onUnwrapPanic: (error) => panics.push(error) });
+
+    expect(() => err("boom").unwrap()).toThrow(UnwrapError);
+    expect(() => err("boom").expect("needed")).toThrow(ExpectError);
+    expect(() => none().unwrap()).toThrow(NoneUnwrapError);
+    expect(() => ok(1).expectErr("needed an error")).toThrow("needed an error");
+    expect(panics.map((error) => error.name)).toEqual([
+      "UnwrapError",
+      "ExpectError",
+      "NoneUnwrapError",
+      "Error",
+    ]);
+  });
+
+  it("should return the previous settings and remove hooks set to undefined", () => {
+    const calls: unknown[] = [];
+    const onErr = (result: Err<unknown, unknown>) => calls.push(result.error);
+
+    setup({ onErr });
+    expect(configure({ onErr: undefined }).onErr).toBe(onErr);
+
+    err("boom");
+    expect(calls).toEqual([]);
+  });
+});
@@ -0,0 +1,264 @@
+import { describe, it, expect } from "vitest";
+import {
+  ok,
+  err,
+  errAsync,
+  absurd,
+  gen,
+  ContextError,
+  TaggedError,
+  errorChain,
+  formatErrorChain,
+  type Result,
+} from "../index";
+
+class NotFound extends TaggedError("NotFound")<{ id: string }> {}
+class Conflict extends TaggedError("Conflict")<{ version: number }> {}
+class Unauthorized extends TaggedError("Unauthorized") {}
+
+type UserError = NotFound | Conflict | Unauthorized;
+
+const findUser = (id: string): Result<string, UserError> => {
+  switch (id) {
+    case "missing":
+      return err(new NotFound({ id, message: `User ${id} not found` }));
+    case "stale":
+      return err(new Conflict({ version: 2 }));
+    case "anonymous":
+      return err(new Unauthorized());
+    default:
+      return ok(`user-${id}`);
+  }
+};
+
+describe("Tagged errors", () => {
+  describe("TaggedError", () => {
+    it("should create Error subclasses with a literal tag", () => {
+      const error = new NotFound({ id: "42", message: "User 42 not found" });
+
+      expect(error).toBeInstanceOf(Error);
+      expect(error).toBeInstanceOf(NotFound);
+      expect(error._tag).toBe("NotFound");
+      expect(error.name).toBe("NotFound");
+      expect(error.message).toBe("User 42 not found");
+      expect(error.id).toBe("42");
+      expect(error.stack).toBeDefined();
+    });
+
+    it("should allow errors without fields", () => {
+      const error = new Unauthorized();
+
+      expect(error._tag).toBe("Unauthorized");
+      expect(error.message).toBe("");
+    });
+  });
+
+  describe("catchTag", () => {
+    it("should recover from the matching variant", () => {
+      const result: Result<string, Conflict | Unauthorized> = findUser(
+        "missing"
+      ).catchTag("NotFound", (error) => ok(`guest-${error.id}`));
+
+      expect(result.unwrap()).toBe("guest-missing");
+    });
+
+    it("should leave other variants untouched", () => {
+      let called = false;
+      const result = findUser("stale").catchTag("NotFound", () => {
+        called = true;
+        return ok("guest");
+      });
+
+      expect(called).toBe(false);
+      expect(result.expectErr("should error")).toBeInstanceOf(Conflict);
+    });
+
+    it("should leave Ok values untouched", () => {
+      const result = findUser("1").catchTag("NotFound", () => ok("guest"));
+      expect(result.unwrap()).toBe("user-1");
+    });
+
+    it("should allow handlers to fail with a new error", () => {
+      const result: Result<string, Conflict | Unauthorized | string> = findUser(
+        "missing"
+      ).catchTag("NotFound", (error) => err(`missing ${error.id}`));
+
+      expect(result.expectErr("should error")).toBe("missing missing");
+    });
+  });
+
+  describe("catchTags", () => {
+    it("should recover from several variants", () => {
+      const recover = (id: string): Result<string, Unauthorized> =>
+        findUser(id).catchTags({
+          NotFound: (error) => ok(`guest-${error.id}`),
+          Conflict: (error) => ok(`retry-v${error.version}`),
+        });
+
+      expect(recover("missing").unwrap()).toBe("guest-missing");
+      expect(recover("stale").unwrap()).toBe("retry-v2");
+      expect(recover("anonymous").expectErr("should error")).toBeInstanceOf(
+        Unauthorized
+      );
+      expect(recover("1").unwrap()).toBe("user-1");
+    });
+
+    it("should support exhaustive handling with absurd", () => {
+      const handled = findUser("anonymous")
+        .catchTags({
+          NotFound: () => ok("guest"),
+          Conflict: () => ok("retry"),
+          Unauthorized: () => ok("login"),
+        })
+        .mapErr(absurd);
+
+      expect(handled.unwrap()).toBe("login");
+
+      const partial = findUser("1").catchTags({ NotFound: () => ok("guest") });
+      // @ts-expect-error Conflict and Unauthorized are not handled
+      partial.mapErr(absurd);
+    });
+
+    it("should reject handlers for unknown tags", () => {
+      findUser("1").catchTags({
+        NotFound: () => ok("guest"),
+        // @ts-expect-error Timeout is not part of the error union
+        Timeout: () => ok("retry"),
+      });
+    });
+
+    it("should ignore errors without a tag", () => {
+      const result = err<number, string | NotFound>("plain").catchTags({
+        NotFound: () => ok(0),
+      });
+
+      expect(result.expectErr("should error")).toBe("plain");
+    });
+  });
+
+  describe("AsyncResult", () => {
+    it("should catch tags with async handlers", async () => {
+      const result = await errAsync<string, UserError>(
+        new NotFound({ id: "7" })
+      )
+        .catchTag("NotFound", async (error) => ok(`guest-${error.id}`))
+        .catchTags({ Conflict: () => ok("retry") });
+
+      expect(result.unwrap()).toBe("guest-7");
+    });
+
+    it("should keep unhandled variants", async () => {
+      const result = await errAsync<string, UserError>(
+        new Unauthorized()
+      ).catchTags({
+        NotFound: () => ok("guest"),
+        Conflict: async () => ok("retry"),
+      });
+
+      expect(result.expectErr("should error")).toBeInstanceOf(Unauthorized);
+    });
+  });
+
+  describe("context", () => {
+    const readFile = (path: string): Result<string, Error> =>
+      err(new Error(`ENOENT: no such file or directory, open '${path}'`));
+
+    it("should wrap Err values with the original as cause", () => {
+      const result = readFile("app.json").context("failed to read file");
+      const error = result.expectErr("should error");
+
+      expect(error).toBeInstanceOf(ContextError);
+      expect(error._tag).toBe("ContextError");
+      expect(error.message).toBe("failed to read file");
+      expect(error.cause.message).toContain("ENOENT");
+    });
+
+    it("should pass Ok values through untouched", () => {
+      const result = ok<number, string>(1).context("failed");
+      expect(result.unwrap()).toBe(1);
+    });
+
+    it("should not evaluate the lazy message for Ok values", () => {
+      let evaluated = false;
+      const result = ok<number, string>(1).withContext(() => {
+        evaluated = true;
+        return "failed";
+      });
+
+      expect(result.unwrap()).toBe(1);
+      expect(evaluated).toBe(false);
+    });
+
+    it("should compute the lazy message from the error", () => {
+      const result = err<number, string>("timeout").withContext(
+        (e) => `request failed after ${e}`
+      );
+
+      expect(result.expectErr("should error").message).toBe(
+        "request failed after timeout"
+      );
+    });
+
+    it("should keep context across gen layers", () => {
+      const loadConfig = gen(function* (path: string) {
+        const text = yield* readFile(path).context("failed to read file");
+        return ok(JSON.parse(text));
+      });
+
+      const start = gen(function* () {
+        const config = yield* loadConfig("app.json").context(
+          "failed to load config"
+        );
+        return ok(config);
+      });
+
+      const error = start().expectErr("should error");
+      expect(formatErrorChain(error)).toBe(
+        "failed to load config: failed to read file: ENOENT: no such file or directory, open 'app.json'"
+      );
+    });
+
+    it("should add context to AsyncResults", async () => {
+      const result = await errAsync("ECONNRESET").context("failed to fetch");
+
+      expect(formatErrorChain(result.expectErr("should error"))).toBe(
+        "failed to fetch: ECONNRESET"
+      );
+    });
+  });
+
+  describe("errorChain", () => {
+    it("should walk causes outermost first", () => {
+      const root = new Error("root");
+      const middle = new ContextError("middle", root);
+      const outer = new ContextError("outer", middle);
+
+      expect(errorChain(outer)).toEqual([outer, middle, root]);
+    });
+
+    it("should follow native Error causes", () => {
+      const root = new Error("root");
+      const outer = new Error("outer");
+      Object.assign(outer, { cause: root });
+
+      expect(errorChain(outer)).toEqual([outer, root]);
+      expect(formatErrorChain(outer)).toBe("outer: root");
+    });
+
+    it("should stop at cycles", () => {
+      const a = new Error("a");
+      const b = new Error("b");
+      Object.assign(a, { cause: b });
+      Object.assign(b, { cause: a });
+
+      expect(errorChain(a)).toEqual([a, b]);
+    });
+
+    it("should handle non-error values", () => {
+      expect(errorChain("plain")).toEqual(["plain"]);
+      expect(formatErrorChain(new ContextError("wrapped", 404))).toBe(
+        "wrapped: 404"
+      );
+    });
+  });
+});
@@ -0,0 +1,266 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, it, expect, vi } from "vitest";
+import {
+  AbortError,
+  configure,
+  HttpError,
+  NetworkError,
+  ParseError,
+  RetryError,
+  RetryPolicy,
+  TimeoutError,
+  safeFetch,
+  type FetchError,
+  type Result,
+} from "../index";
+
+let server: Server;
+let baseUrl: string;
+let flakyCalls = 0;
+
+const listen = (target: Server) =>
+  new Promise<string>((resolve) => {
+    target.listen(0, "127.0.0.1", () => {
+      const { port } = target.address() as AddressInfo;
+      resolve(`http://127.0.0.1:${port}`);
+    });
+  });
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    switch (request.url) {
+      case "/user":
+        response.setHeader("content-type", "application/json");
+        response.end(JSON.stringify({ id: 1, name: "Ada" }));
+        return;
+      case "/text":
+        response.end("hello");
+        return;
+      case "/missing":
+        response.statusCode = 404;
+        response.setHeader("x-request-id", "abc");
+        response.end(`not found: ${"x".repeat(2000)}`);
+        return;
+      case "/invalid-json":
+        response.end("{ not json");
+        return;
+      case "/slow":
+        setTimeout(() => response.end("{}"), 200);
+        return;
+      case "/flaky":
+        flakyCalls++;
+        if (flakyCalls < 3) {
+          response.statusCode = 503;
+          response.end("unavailable");
+        } else {
+          response.end(JSON.stringify({ ok: true }));
+        }
+        return;
+      default:
+        response.statusCode = 500;
+        response.end();
+    }
+  });
+  baseUrl = await listen(server);
+});
+
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+describe("safeFetch", () => {
+  it("should decode a JSON body", async () => {
+    const result: Result<{ id: number; name: string }, FetchError> =
+      await safeFetch<{ id: number; name: string }>(`${baseUrl}/user`);
+
+    expect(result.unwrap()).toEqual({ id: 1, name: "Ada" });
+  });
+
+  it("should decode a text body", async () => {
+    const result = await safeFetch<string>(`${baseUrl}/text`, undefined, {
+      decode: "text",
+    });
+
+    expect(result.unwrap()).toBe("hello");
+  });
+
+  it("should decode with a custom decoder", async () => {
+    const result = await safeFetch(`${baseUrl}/user`, undefined, {
+      decode: async (response) => {
+        const body = (await response.json()) as { name: string };
+        return body.name.toUpperCase();
+      },
+    });
+
+    expect(result.unwrap()).toBe("ADA");
+  });
+
+  it("should return an HttpError for non-2xx statuses", async () => {
+    const result = await safeFetch(`${baseUrl}/missing`, undefined, {
+      bodySnippetLength: 20,
+    });
+
+    expect(result.isErr()).toBe(true);
+    const error = result.isErr() ? result.error : undefined;
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error).toMatchObject({
+      _tag: "HttpError",
+      status: 404,
+      statusText: "Not Found",
+      url: `${baseUrl}/missing`,
+      body: "not found: xxxxxxxxx",
+    });
+    expect((error as HttpError).headers["x-request-id"]).toBe("abc");
+  });
+
+  it("should stop reading the error body once the snippet is long enough", async () => {
+    let pulls = 0;
+    let cancelled = false;
+    const body = new ReadableStream<Uint8Array>({
+      pull: (controller) => {
+        pulls++;
+        controller.enqueue(new TextEncoder().encode("x".repeat(16)));
+      },
+      cancel: () => {
+        cancelled = true;
+      },
+    });
+
+    const result = await safeFetch(`${baseUrl}/endless`, undefined, {
+      bodySnippetLength: 40,
+      fetch: async () => new Response(body, { status: 500 }),
+    });
+
+    expect(result.isErr() && result.error).toBeInstanceOf(HttpError);
+    expect(result.isErr() && (result.error as HttpError).body).toBe(
+      "x".repeat(40)
+    );
+    expect(pulls).toBeLessThan(10);
+    expect(cancelled).toBe(true);
+  });
+
+  it("should return a ParseError when the body cannot be decoded", async () => {
+    const result = await safeFetch(`${baseUrl}/invalid-json`);
+
+    expect(result.isErr() && result.error).toBeInstanceOf(ParseError);
+  });
+
+  it("should return a ParseError when a custom decoder throws", async () => {
+    const result = await safeFetch(`${baseUrl}/text`, undefined, {
+      decode: () => {
+        throw new Error("unexpected shape");
+      },
+    });
+
+    expect(result.isErr() && result.error).toBeInstanceOf(ParseError);
+    expect(result.isErr() && result.error.message).toContain(
+      "unexpected shape"
+    );
+  });
+
+  it("should return a NetworkError when no response is received", async () => {
+    const closed = createServer();
+    const closedUrl = await listen(closed);
+    await new Promise<void>((resolve) => closed.close(() => resolve()));
+
+    const result = await safeFetch(`${closedUrl}/user`);
+
+    expect(result.isErr() && result.error).toBeInstanceOf(NetworkError);
+  });
+
+  it("should return a TimeoutError when an attempt takes too long", async () => {
+    const result = await safeFetch(`${baseUrl}/slow`, undefined, {
+      timeoutMs: 20,
+    });
+
+    expect(result.isErr() && result.error).toBeInstanceOf(TimeoutError);
+  });
+
+  it("should return an AbortError when the request signal aborts", async () => {
+    const controller = new AbortController();
+    const pending = safeFetch(`${baseUrl}/slow`, {
+      signal: controller.signal,
+    });
+
+    setTimeout(() => controller.abort(), 10);
+
+    const result = await pending;
+    expect(result.isErr() && result.error).toBeInstanceOf(AbortError);
+  });
+
+  it("should abort on the request signal when the RetryPolicy has its own", async () => {
+    const controller = new AbortController();
+    const pending = safeFetch(
+      `${baseUrl}/slow`,
+      { signal: controller.signal },
+      {
+        retry: new RetryPolicy<FetchError>({
+          times: 2,
+          signal: new AbortController().signal,
+        }),
+      }
+    );
+
+    setTimeout(() => controller.abort(), 10);
+
+    const result = await pending;
+    expect(result.isErr() && result.error.attempts).toBe(1);
+    expect(result.isErr() && result.error.cause).toBeInstanceOf(AbortError);
+  });
+
+  it("should return a NetworkError when there is no global fetch", async () => {
+    vi.stubGlobal("fetch", undefined);
+
+    try {
+      const result = await safeFetch(`${baseUrl}/user`);
+
+      expect(result.isErr() && result.error).toBeInstanceOf(NetworkError);
+      expect(result.isErr() && result.error.message).toContain(
+        "fetch is not available"
+      );
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("should retry with the tryPromise retry shorthand", async () => {
+    flakyCalls = 0;
+
+    const result = await safeFetch(`${baseUrl}/flaky`, undefined, {
+      retry: { times: 3, delayMs: 1 },
+    });
+
+    expect(result.unwrap()).toEqual({ ok: true });
+    expect(flakyCalls).toBe(3);
+  });
+
+  it("should report the returned error to onErr", async () => {
+    const seen: unknown[] = [];
+    const previous = configure({ onErr: (result) => seen.push(result.error) });
+
+    try {
+      const result = await safeFetch(`${baseUrl}/missing`, undefined, {
+        retry: { times: 1, delayMs: 1 },
+      });
+
+      expect(seen).toEqual([result.isErr() && result.error]);
+      expect(seen[0]).toBeInstanceOf(HttpError);
+    } finally {
+      configure(previous);
+    }
+  });
+
+  it("should wrap errors in RetryError and honour shouldRetry with a RetryPolicy", async () => {
+    const result = await safeFetch(`${baseUrl}/missing`, undefined, {
+      retry: new RetryPolicy<FetchError>({
+        times: 3,
+        shouldRetry: (error) =>
+          error._tag === "NetworkError" ||
+          (error._tag === "HttpError" && error.status >= 500),
+      }),
+    });
+
+    expect(result.isErr() && result.error).toBeInstanceOf(RetryError);
+    expect(result.isErr() && result.error.attempts).toBe(1);
+    expect(result.isErr() && result.error.cause).toBeInstanceOf(HttpError);
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, it, expect } from "vitest";
+import { flow, pipe, O, R } from "../fp";
+import {
+  ContextError,
+  err,
+  none,
+  ok,
+  some,
+  type Option,
+  type Result,
+} from "../index";
+
+const parse = (input: string): Result<number, string> => {
+  const value = Number(input);
+  return Number.isNaN(value) ? err(`not a number: ${input}`) : ok(value);
+};
+
+describe("fp", () => {
+  describe("pipe", () => {
+    it("should return the value when given no functions", () => {
+      expect(pipe(1)).toBe(1);
+    });
+
+    it("should apply functions from left to right", () => {
+      const result = pipe(
+        "21",
+        parse,
+        R.map((x) => x * 2),
+        R.map((x) => `${x}`),
+        R.unwrapOr("none")
+      );
+
+      expect(result).toBe("42");
+    });
+
+    it("should infer types across long pipelines", () => {
+      const result: string = pipe(
+        parse("1"),
+        R.map((x) => x + 1),
+        R.flatMap((x) => (x > 0 ? ok(x) : err(0 as const))),
+        R.mapErr((e) => (typeof e === "string" ? e.length : e)),
+        R.map((x) => [x, x] as const),
+        R.map(([a, b]) => a + b),
+        R.toOption,
+        O.filter((x) => x % 2 === 0),
+        O.map((x) => x / 2),
+        O.okOr("odd"),
+        R.match({ ok: (x) => `ok ${x}`, err: (e) => `err ${e}` })
+      );
+
+      expect(result).toBe("ok 2");
+    });
+  });
+
+  describe("flow", () => {
+    it("should compose functions into one", () => {
+      const parsePort = flow(
+        (input: string) => O.fromNumber(Number(input)),
+        O.filter((port) => port > 0 && port < 65_536),
+        O.okOr("invalid port")
+      );
+
+      expect(parsePort("8080").unwrap()).toBe(8080);
+      expect(parsePort("abc").isErr()).toBe(true);
+      expect(parsePort("0").isErr()).toBe(true);
+    });
+
+    it("should pass every argument to the first function", () => {
+      const add = flow(
+        (a: number, b: number) => a + b,
+        (sum) => sum * 10
+      );
+
+      expect(add(1, 2)).toBe(30);
+    });
+  });
+
+  describe("R", () => {
+    it("should interoperate with class methods", () => {
+      const result = pipe(
+        ok<number, string>(1),
+        R.map((x) => x + 1)
+      ).map((x) => x * 10);
+
+      expect(result.unwrap()).toBe(20);
+    });
+
+    it("should leave Err untouched in map and flatMap", () => {
+      const failure = err<number, string>("boom");
+
+      expect(
+        pipe(
+          failure,
+          R.map((x) => x + 1)
+        )
+      ).toEqual(failure);
+      expect(
+        pipe(
+          failure,
+          R.flatMap((x) => ok(x + 1))
+        ).isErr()
+      ).toBe(true);
+    });
+
+    it("should map errors and add context", () => {
+      const result = pipe(
+        err<number, string>("boom"),
+        R.mapErr((e) => e.toUpperCase()),
+        R.context("loading")
+      );
+
+      expect(result.isErr() && result.error).toBeInstanceOf(ContextError);
+      expect(result.isErr() && result.error.cause).toBe("BOOM");
+    });
+
+    it("should flatten nested results", () => {
+      expect(R.flatten(ok(ok(1))).unwrap()).toBe(1);
+      expect(R.flatten(ok(err("inner"))).isErr()).toBe(true);
+    });
+
+    it("should combine results with and and or", () => {
+      expect(pipe(ok(1), R.and(ok(2))).unwrap()).toBe(2);
+      expect(pipe(err<number, string>("a"), R.or(ok(2))).unwrap()).toBe(2);
+    });
+
+    it("should unwrap with a default or a computed value", () => {
+      expect(pipe(err<number, string>("boom"), R.unwrapOr(null))).toBeNull();
+      expect(
+        pipe(
+          err<number, string>("boom"),
+          R.unwrapOrElse((e) => e.length)
+        )
+      ).toBe(4);
+    });
+
+    it("should provide type guards", () => {
+      const result: Result<number, string> = parse("1");
+
+      if (R.isOk(result)) {
+        const value: number = result.value;
+        expect(value).toBe(1);
+      }
+      expect(R.isErr(parse("x"))).toBe(true);
+    });
+  });
+
+  describe("O", () => {
+    it("should map and match options", () => {
+      const describeOption = flow(
+        O.map((x: number) => x * 2),
+        O.match({ some: (x) => `some ${x}`, none: () => "none" })
+      );
+
+      expect(describeOption(some(2))).toBe("some 4");
+      expect(describeOption(none())).toBe("none");
+    });
+
+    it("should narrow with type guard filters", () => {
+      const value: Option<string | number> = some("a");
+      const narrowed: Option<string> = pipe(
+        value,
+        O.filter((x): x is string => typeof x === "string")
+      );
+
+      expect(narrowed.unwrap()).toBe("a");
+    });
+
+    it("should fall back lazily", () => {
+      expect(
+        pipe(
+          O.none<number>(),
+          O.orElse(() => O.some(1))
+        ).unwrap()
+      ).toBe(1);
+      expect(pipe(O.fromNullable(null), O.unwrapOr(0))).toBe(0);
+      expect(
+        pipe(
+          O.some(1),
+          O.unwrapOrElse(() => 0)
+        )
+      ).toBe(1);
+    });
+
+    it("should convert to nullable values and Results", () => {
+      expect(O.toNullable(O.none())).toBeNull();
+      expect(O.toUndefined(O.some(1))).toBe(1);
+      expect(
+        pipe(
+          O.none<number>(),
+          O.okOrElse(() => "missing")
+        ).isErr()
+      ).toBe(true);
+    });
+  });
+});
@@ -1,8 +1,38 @@
 import { describe, it, expect } from "vitest";
-import { ok, err, gen, tryPromise, all, partition, Result } from "../index";
+import {
+  ok,
+  err,
+  gen,
+  genAsync,
+  genOption,
+  some,
+  none,
+  fromNullable,
+  tryPromise,
+  all,
+  partition,
+  any,
+  anyAsync,
+  allAsync,
+  AbortError,
+  Result,
+  Option,
+  NoneError,
+} from "../index";
 
 describe("Generator-based Result", () => {
   describe("Result.gen", () => {
+    it("should accept explicit <T, E, Args> type arguments", () => {
+      const half = gen<number, string, [number]>(function* (n: number) {
+        const value = yield* n % 2 === 0 ? ok(n / 2) : err("odd");
+        return ok(value);
+      });
+      const result: Result<number, string> = half(4);
+
+      expect(result.unwrap()).toBe(2);
+      expect(half(3).isErr()).toBe(true);
+    });
+
     it("should auto unwrap Ok values with yield*", () => {
       const divide = (a: number, b: number): Result<number, string> => {
         if (b === 0) return err("Division by zero error");
@@ -119,6 +149,273 @@ describe("Generator-based Result", () => {
     });
   });
 
+  describe("Generator cleanup", () => {
+    it("should run finally blocks when gen short-circuits", () => {
+      const events: string[] = [];
+
+      const process = gen(function* () {
+        events.push("open");
+        try {
+          yield* err("failed");
+          events.push("unreachable");
+          return ok(1);
+        } finally {
+          events.push("close");
+        }
+      });
+
+      expect(process().isErr()).toBe(true);
+      expect(events).toEqual(["open", "close"]);
+    });
+
+    it("should run finally blocks when a None short-circuits gen", () => {
+      let closed = false;
+
+      const process = gen(function* () {
+        try {
+          yield* none();
+          return ok(1);
+        } finally {
+          closed = true;
+        }
+      });
+
+      expect(process().isErr()).toBe(true);
+      expect(closed).toBe(true);
+    });
+
+    it("should close the generator when the runner throws", () => {
+      let closed = false;
+
+      const process = gen(
+        function* () {
+          try {
+            yield* none();
+            return ok(1);
+          } finally {
+            closed = true;
+          }
+        },
+        {
+          noneError: () => {
+            throw new Error("boom");
+          },
+        }
+      );
+
+      expect(() => process()).toThrow("boom");
+      expect(closed).toBe(true);
+    });
+
+    it("should run finally blocks when genAsync short-circuits", async () => {
+      const events: string[] = [];
+
+      const process = genAsync(async function* () {
+        events.push("open");
+        try {
+          yield* await Promise.resolve(err("failed"));
+          return ok(1);
+        } finally {
+          await Promise.resolve();
+          events.push("close");
+        }
+      });
+
+      expect((await process()).isErr()).toBe(true);
+      expect(events).toEqual(["open", "close"]);
+    });
+
+    it("should run finally blocks when Option.gen short-circuits", () => {
+      const events: string[] = [];
+
+      const process = genOption(function* () {
+        events.push("open");
+        try {
+          yield* none<number>();
+          events.push("unreachable");
+          return some(1);
+        } finally {
+          events.push("close");
+        }
+      });
+
+      expect(process().isNone()).toBe(true);
+      expect(events).toEqual(["open", "close"]);
+    });
+  });
+
+  describe("Result.gen with Options", () => {
+    const users = new Map([
+      ["1", { name: "Alice", age: 30 }],
+      ["2", { name: "Bob", age: 12 }],
+    ]);
+
+    const validateAge = (age: number): Result<number, string> => {
+      if (age < 13) return err("Too young");
+      return ok(age);
+    };
+
+    it("should unwrap Some values alongside Results", () => {
+      const getAdultName = gen(function* (id: string) {
+        const user = yield* fromNullable(users.get(id));
+        yield* validateAge(user.age);
+        return ok(user.name);
+      });
+
+      const result: Result<string, string | NoneError> = getAdultName("1");
+      expect(result.unwrap()).toBe("Alice");
+      expect(getAdultName("2").expectErr("should error")).toBe("Too young");
+    });
+
+    it("should convert None into a NoneError by default", () => {
+      const getName = gen(function* (id: string) {
+        const user = yield* fromNullable(users.get(id));
+        return ok(user.name);
+      });
+
+      const error = getName("3").expectErr("should error");
+      expect(error).toBeInstanceOf(NoneError);
+      expect(error._tag).toBe("NoneError");
+    });
+
+    it("should use the workflow noneError when provided", () => {
+      class NotFound {
+        readonly type = "NOT_FOUND";
+      }
+
+      const getName = gen(
+        function* (id: string) {
+          const user = yield* fromNullable(users.get(id));
+          yield* validateAge(user.age);
+          return ok(user.name);
+        },
+        { noneError: () => new NotFound() }
+      );
+
+      const result: Result<string, string | NotFound> = getName("3");
+      expect(result.expectErr("should error")).toBeInstanceOf(NotFound);
+    });
+
+    it("should allow choosing the error at the yield site", () => {
+      const getName = gen(function* (id: string) {
+        const user = yield* fromNullable(users.get(id)).okOrElse(
+          () => `User ${id} not found`
+        );
+        return ok(user.name);
+      });
+
+      const result: Result<string, string> = getName("3");
+      expect(result.expectErr("should error")).toBe("User 3 not found");
+    });
+
+    it("should stop at the first None", () => {
+      let reachedEnd = false;
+
+      const process = gen(function* () {
+        yield* none();
+        reachedEnd = true;
+        return ok(1);
+      });
+
+      expect(process().isErr()).toBe(true);
+      expect(reachedEnd).toBe(false);
+    });
+
+    it("should mix Options and Results in genAsync", async () => {
+      const getName = genAsync(
+        async function* (id: string) {
+          const user = yield* fromNullable(users.get(id));
+          yield* await Promise.resolve(validateAge(user.age));
+          return ok(user.name);
+        },
+        { noneError: () => "missing" as const }
+      );
+
+      expect((await getName("1")).unwrap()).toBe("Alice");
+      expect((await getName("2")).expectErr("should error")).toBe("Too young");
+      expect((await getName("3")).expectErr("should error")).toBe("missing");
+    });
+  });
+
+  describe("Result.genAsync", () => {
+    const fetchNumber = async (
+      value: number
+    ): Promise<Result<number, string>> => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      if (value < 0) return err("Negative number");
+      return ok(value);
+    };
+
+    const divide = (a: number, b: number): Result<number, string> => {
+      if (b === 0) return err("Division by zero");
+      return ok(a / b);
+    };
+
+    it("should unwrap both sync and async Results", async () => {
+      const calculate = genAsync(async function* () {
+        const a = yield* await fetchNumber(10);
+        const b = yield* divide(a, 2);
+        return ok(b + 1);
+      });
+
+      const result = await calculate();
+      expect(result.unwrap()).toBe(6);
+    });
+
+    it("should propagate the first error", async () => {
+      let reachedEnd = false;
+
+      const calculate = genAsync(async function* () {
+        const a = yield* await fetchNumber(-1);
+        const b = yield* divide(a, 0);
+        reachedEnd = true;
+        return ok(b);
+      });
+
+      const result = await calculate();
+      expect(result.expectErr("should error")).toBe("Negative number");
+      expect(reachedEnd).toBe(false);
+    });
+
+    it("should forward arguments", async () => {
+      const calculate = genAsync(async function* (a: number, b: number) {
+        const x = yield* await fetchNumber(a);
+        const y = yield* divide(x, b);
+        return ok(y);
+      });
+
+      expect((await calculate(10, 5)).unwrap()).toBe(2);
+      expect((await calculate(10, 0)).expectErr("should error")).toBe(
+        "Division by zero"
+      );
+    });
+
+    it("should allow early returns", async () => {
+      const process = genAsync(async function* (x: number) {
+        if (x < 0) {
+          return err("Negative not allowed");
+        }
+
+        const doubled = yield* await fetchNumber(x * 2);
+        return ok(doubled);
+      });
+
+      expect((await process(-5)).expectErr("should error")).toBe(
+        "Negative not allowed"
+      );
+      expect((await process(5)).unwrap()).toBe(10);
+    });
+
+    it("should reject when the generator throws", async () => {
+      const process = genAsync(async function* () {
+        yield* ok(1);
+        throw new Error("boom");
+      });
+
+      await expect(process()).rejects.toThrow("boom");
+    });
+  });
+
   describe("Result.tryPromise", () => {
     it("should handle successful promises", async () => {
       const result = await tryPromise({
@@ -219,6 +516,13 @@ describe("Generator-based Result", () => {
   });
 
   describe("Result.all", () => {
+    it("should accept explicit <T, E> type arguments", () => {
+      const results: Result<number, string>[] = [ok(1), ok(2)];
+      const combined: Result<number[], string> = all<number, string>(results);
+
+      expect(combined.unwrap()).toEqual([1, 2]);
+    });
+
     it("should collect all Ok values", () => {
       const results = [ok(1), ok(2), ok(3)];
       const combined = all(results);
@@ -247,9 +551,256 @@ describe("Generator-based Result", () => {
 
       expect(combined.expectErr("should error")).toBe("first");
     });
+
+    it("should preserve tuple types", () => {
+      const user: Result<{ name: string }, "user-missing"> = ok({
+        name: "Ada",
+      });
+      const orders: Result<number[], "orders-failed"> = ok([1, 2]);
+
+      const combined: Result<
+        [{ name: string }, number[]],
+        "user-missing" | "orders-failed"
+      > = all([user, orders]);
+
+      expect(combined.unwrap()).toEqual([{ name: "Ada" }, [1, 2]]);
+    });
+
+    it("should combine records of Results", () => {
+      const user: Result<{ name: string }, "user-missing"> = ok({
+        name: "Ada",
+      });
+      const orders: Result<number[], "orders-failed"> = err("orders-failed");
+
+      const combined: Result<
+        { user: { name: string }; orders: number[] },
+        "user-missing" | "orders-failed"
+      > = all({ user, orders });
+
+      expect(combined.expectErr("should error")).toBe("orders-failed");
+      expect(all({ user }).unwrap()).toEqual({ user: { name: "Ada" } });
+    });
+  });
+
+  describe("Result.any", () => {
+    it("should return the first Ok", () => {
+      const result = any([err("cache-miss"), ok(1), ok(2)]);
+
+      expect(result.unwrap()).toBe(1);
+    });
+
+    it("should collect every error in order when nothing succeeds", () => {
+      const result: Result<number, ["cache-miss", "replica-down"]> = any([
+        err<number, "cache-miss">("cache-miss"),
+        err<number, "replica-down">("replica-down"),
+      ]);
+
+      expect(result.expectErr("should error")).toEqual([
+        "cache-miss",
+        "replica-down",
+      ]);
+    });
+
+    it("should return an empty error list for no Results", () => {
+      expect(any([]).expectErr("should error")).toEqual([]);
+    });
+  });
+
+  describe("Result.anyAsync", () => {
+    const delayed = <T>(
+      ms: number,
+      result: Result<T, string>,
+      aborted: string[] = [],
+      name = ""
+    ) => {
+      return (signal: AbortSignal) =>
+        new Promise<Result<T, string>>((resolve) => {
+          const onAbort = () => {
+            clearTimeout(timer);
+            aborted.push(name);
+            resolve(err("aborted"));
+          };
+          const timer = setTimeout(() => {
+            signal.removeEventListener("abort", onAbort);
+            resolve(result);
+          }, ms);
+          signal.addEventListener("abort", onAbort);
+        });
+    };
+
+    it("should resolve with the first Ok and abort the rest", async () => {
+      const aborted: string[] = [];
+      const result = await anyAsync([
+        delayed(30, ok("slow"), aborted, "slow"),
+        delayed(5, ok("fast"), aborted, "fast"),
+        delayed(1, err("miss"), aborted, "miss"),
+      ]);
+
+      expect(result.unwrap()).toBe("fast");
+      expect(aborted).toEqual(["slow"]);
+    });
+
+    it("should collect every error in order when nothing succeeds", async () => {
+      const result = await anyAsync([
+        delayed(10, err<number, string>("first")),
+        delayed(1, err<number, string>("second")),
+      ]);
+
+      expect(result.expectErr("should error")).toEqual(["first", "second"]);
+    });
+
+    it("should abort producers when the caller's signal aborts", async () => {
+      const controller = new AbortController();
+      const pending = anyAsync([delayed(1000, ok(1))], {
+        signal: controller.signal,
+      });
+      controller.abort();
+
+      expect((await pending).expectErr("should error")).toEqual(["aborted"]);
+    });
+
+    it("should reject when a producer throws", async () => {
+      const aborted: string[] = [];
+      const pending = anyAsync([
+        delayed(1000, ok(1), aborted, "slow"),
+        () => Promise.reject(new Error("boom")),
+      ]);
+
+      await expect(pending).rejects.toThrow("boom");
+      expect(aborted).toEqual(["slow"]);
+    });
+  });
+
+  describe("Result.allAsync", () => {
+    const task =
+      <T>(ms: number, result: Result<T, string>, log: string[] = []) =>
+      (signal: AbortSignal) =>
+        new Promise<Result<T, string>>((resolve) => {
+          log.push(`start ${ms}`);
+          const onAbort = () => {
+            clearTimeout(timer);
+            log.push(`abort ${ms}`);
+            resolve(err("aborted"));
+          };
+          const timer = setTimeout(() => {
+            signal.removeEventListener("abort", onAbort);
+            resolve(result);
+          }, ms);
+          signal.addEventListener("abort", onAbort);
+        });
+
+    it("should combine values in input order", async () => {
+      const result: Result<[number, string], string | AbortError> =
+        await allAsync([task(10, ok(1)), task(1, ok("two"))]);
+
+      expect(result.unwrap()).toEqual([1, "two"]);
+      expect((await allAsync([])).unwrap()).toEqual([]);
+    });
+
+    it("should limit the number of tasks in flight", async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const tasks = Array.from({ length: 6 }, (_, index) => async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 2));
+        inFlight--;
+        return ok<number, string>(index);
+      });
+
+      const result = await allAsync(tasks, { concurrency: 2 });
+
+      expect(result.unwrap()).toEqual([0, 1, 2, 3, 4, 5]);
+      expect(maxInFlight).toBe(2);
+    });
+
+    it("should stop at the first Err and abort the remaining tasks", async () => {
+      const log: string[] = [];
+      const result = await allAsync(
+        [
+          task(50, ok(1), log),
+          task(1, err<number, string>("failed"), log),
+          task(1, ok(3), log),
+        ],
+        { concurrency: 2 }
+      );
+
+      expect(result.expectErr("should error")).toBe("failed");
+      expect(log).toEqual(["start 50", "start 1", "abort 50"]);
+    });
+
+    it("should run every task and partition the outcomes in settle mode", async () => {
+      const settled = await allAsync(
+        [
+          task(5, ok(1)),
+          task(1, err<number, string>("failed")),
+          task(1, ok(3)),
+        ],
+        { mode: "settle", concurrency: 1 }
+      );
+
+      expect(settled).toEqual({ ok: [1, 3], err: ["failed"] });
+    });
+
+    it("should abort when the caller's signal aborts", async () => {
+      const controller = new AbortController();
+      const log: string[] = [];
+      const pending = allAsync([task(50, ok(1), log), task(50, ok(2), log)], {
+        concurrency: 1,
+        signal: controller.signal,
+      });
+      controller.abort("shutdown");
+
+      const error = (await pending).expectErr("should error");
+      expect(error).toBeInstanceOf(AbortError);
+      expect((error as AbortError).cause).toBe("shutdown");
+      expect(log).toEqual(["start 50", "abort 50"]);
+    });
+
+    it("should mark unstarted tasks as aborted in settle mode", async () => {
+      const controller = new AbortController();
+      const pending = allAsync([task(50, ok(1)), task(50, ok(2))], {
+        mode: "settle",
+        concurrency: 1,
+        signal: controller.signal,
+      });
+      controller.abort();
+
+      const { ok: values, err: errors } = await pending;
+      expect(values).toEqual([]);
+      expect(errors[0]).toBe("aborted");
+      expect(errors[1]).toBeInstanceOf(AbortError);
+    });
+
+    it("should reject when a task throws", async () => {
+      const log: string[] = [];
+      const pending = allAsync([
+        task(50, ok(1), log),
+        () => Promise.reject(new Error("boom")),
+      ]);
+
+      await expect(pending).rejects.toThrow("boom");
+      expect(log).toEqual(["start 50", "abort 50"]);
+    });
+
+    it("should throw a RangeError for an invalid concurrency", () => {
+      for (const concurrency of [0, -1, NaN]) {
+        expect(() => allAsync([task(1, ok(1))], { concurrency })).toThrow(
+          RangeError
+        );
+      }
+    });
   });
 
   describe("Result.partition", () => {
+    it("should accept explicit <T, E> type arguments", () => {
+      const results: Result<number, string>[] = [ok(1), err("e")];
+      const { ok: values, err: errors } = partition<number, string>(results);
+      const typed: [number[], string[]] = [values, errors];
+
+      expect(typed).toEqual([[1], ["e"]]);
+    });
+
     it("should separate Ok and Err values", () => {
       const results = [ok(1), err("error1"), ok(2), err("error2"), ok(3)];
 
@@ -282,6 +833,29 @@ describe("Generator-based Result", () => {
       expect(okVals).toEqual([]);
       expect(errVals).toEqual([]);
     });
+
+    it("should type tuple entries", () => {
+      const { ok: okVals, err: errVals } = partition([
+        ok<number, "a">(1),
+        err<string, "b">("b"),
+      ]);
+      const values: (number | string)[] = okVals;
+      const errors: ("a" | "b")[] = errVals;
+
+      expect(values).toEqual([1]);
+      expect(errors).toEqual(["b"]);
+    });
+
+    it("should key record entries by field", () => {
+      const { ok: okVals, err: errVals } = partition({
+        user: ok<{ name: string }, "user-missing">({ name: "Ada" }),
+        orders: err<number[], "orders-failed">("orders-failed"),
+      });
+
+      expect(okVals).toEqual({ user: { name: "Ada" } });
+      expect(okVals.orders).toBeUndefined();
+      expect(errVals).toEqual({ orders: "orders-failed" });
+    });
   });
 
   describe("Generator iterator protocol", () => {
@@ -304,3 +878,113 @@ describe("Generator-based Result", () => {
     });
   });
 });
+
+describe("Generator-based Option", () => {
+  describe("Option.gen", () => {
+    const parsePositive = (str: string): Option<number> => {
+      const num = parseInt(str, 10);
+      if (isNaN(num) || num <= 0) return none();
+      return some(num);
+    };
+
+    it("should auto unwrap Some values with yield*", () => {
+      const calculate = genOption(function* () {
+        const a = yield* parsePositive("10");
+        const b = yield* parsePositive("20");
+        return some(a + b);
+      });
+
+      expect(calculate().unwrap()).toBe(30);
+    });
+
+    it("should short-circuit on the first None", () => {
+      let reachedEnd = false;
+
+      const calculate = genOption(function* () {
+        const a = yield* parsePositive("10");
+        const b = yield* parsePositive("-1");
+        reachedEnd = true;
+        return some(a + b);
+      });
+
+      expect(calculate().isNone()).toBe(true);
+      expect(reachedEnd).toBe(false);
+    });
+
+    it("should work with complex workflows", () => {
+      interface Address {
+        city?: string;
+      }
+
+      interface User {
+        name: string;
+        address?: Address;
+      }
+
+      const users = new Map<string, User>([
+        ["1", { name: "Alice", address: { city: "Lagos" } }],
+        ["2", { name: "Bob", address: {} }],
+        ["3", { name: "Carol" }],
+      ]);
+
+      const getCity = genOption(function* (
+        id: string
+      ): Generator<Option<unknown>, Option<string>, unknown> {
+        const user = yield* fromNullable(users.get(id));
+        const address = yield* fromNullable(user.address);
+        const city = yield* fromNullable(address.city);
+        return some(city);
+      });
+
+      expect(getCity("1").unwrap()).toBe("Lagos");
+      expect(getCity("2").isNone()).toBe(true);
+      expect(getCity("3").isNone()).toBe(true);
+      expect(getCity("4").isNone()).toBe(true);
+    });
+
+    it("should forward arguments", () => {
+      const sum = genOption(function* (a: string, b: string) {
+        const numA = yield* parsePositive(a);
+        const numB = yield* parsePositive(b);
+        return some(numA + numB);
+      });
+
+      expect(sum("1", "2").unwrap()).toBe(3);
+      expect(sum("abc", "2").isNone()).toBe(true);
+    });
+
+    it("should allow early returns", () => {
+      const process = genOption(function* (x: number) {
+        if (x < 0) {
+          return none();
+        }
+
+        const doubled = yield* some(x * 2);
+        return some(doubled);
+      });
+
+      expect(process(-5).isNone()).toBe(true);
+      expect(process(5).unwrap()).toBe(10);
+    });
+  });
+
+  describe("Generator iterator protocol", () => {
+    it("should implement iterator for Some", () => {
+      const option = some(42);
+      const iterator = option[Symbol.iterator]();
+      const next = iterator.next();
+
+      expect(next.done).toBe(true);
+      expect(next.value).toBe(42);
+    });
+
+    it("should implement iterator for None", () => {
+      const option = none();
+      const iterator = option[Symbol.iterator]();
+      const next = iterator.next();
+
+      expect(next.done).toBe(false);
+      expect(next.value).toBe(option);
+    });
+  });
+});
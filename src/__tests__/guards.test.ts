@@ -0,0 +1,219 @@
+import { runInNewContext } from "node:vm";
+import { describe, it, expect, vi } from "vitest";
+import {
+  err,
+  gen,
+  isErr,
+  isNone,
+  isOk,
+  isOption,
+  isResult,
+  isSome,
+  none,
+  ok,
+  all,
+  any,
+  partition,
+  some,
+  Err,
+  None,
+  OptionFactory,
+  RetryError,
+  tryPromise,
+  validateAll,
+  type Option,
+  type Result,
+} from "../index";
+
+/**
+ * Loads a second, independent copy of the library, as when two versions end up in one bundle.
+ */
+const loadCopy = async () => {
+  vi.resetModules();
+  return import("../index");
+};
+
+describe("guards", () => {
+  it("should recognize Results and Options", () => {
+    expect(isResult(ok(1))).toBe(true);
+    expect(isResult(err("boom"))).toBe(true);
+    expect(isResult(some(1))).toBe(false);
+    expect(isOption(some(1))).toBe(true);
+    expect(isOption(none())).toBe(true);
+    expect(isOption(ok(1))).toBe(false);
+  });
+
+  it("should tell the variants apart", () => {
+    expect(isOk(ok(1))).toBe(true);
+    expect(isOk(err(1))).toBe(false);
+    expect(isErr(err(1))).toBe(true);
+    expect(isErr(ok(1))).toBe(false);
+    expect(isSome(some(1))).toBe(true);
+    expect(isSome(none())).toBe(false);
+    expect(isNone(none())).toBe(true);
+    expect(isNone(some(1))).toBe(false);
+  });
+
+  it("should reject look-alikes without the brand", () => {
+    const lookAlikes = [
+      { _tag: "Ok", value: 1 },
+      { _tag: "Err", error: 1 },
+      { _tag: "None" },
+      null,
+      undefined,
+      "Ok",
+    ];
+
+    for (const value of lookAlikes) {
+      expect(isResult(value)).toBe(false);
+      expect(isOk(value)).toBe(false);
+      expect(isErr(value)).toBe(false);
+      expect(isOption(value)).toBe(false);
+      expect(isNone(value)).toBe(false);
+    }
+  });
+
+  it("should narrow the type of a Result", () => {
+    const result: Result<number, string> = ok(1);
+
+    if (isOk(result)) {
+      const value: number = result.value;
+      expect(value).toBe(1);
+    }
+  });
+
+  it("should recognize values created in another realm", () => {
+    const foreign: unknown = runInNewContext(
+      '({ [Symbol.for("nothrow-ts/Result")]: true, _tag: "Err", error: "boom" })'
+    );
+
+    expect(foreign instanceof Object).toBe(false);
+    expect(isResult(foreign)).toBe(true);
+    expect(isErr(foreign)).toBe(true);
+  });
+
+  it("should use _tag as the discriminant of None", () => {
+    expect(none()._tag).toBe("None");
+    expect(None.instance.tag).toBe("None");
+  });
+});
+
+describe("with another copy of the library", () => {
+  it("should load a copy with distinct classes", async () => {
+    const copy = await loadCopy();
+
+    expect(copy.err("boom")).not.toBeInstanceOf(Err);
+    expect(copy.None.instance).not.toBe(None.instance);
+  });
+
+  it("should short-circuit gen on an Err from the other copy", async () => {
+    const copy = await loadCopy();
+
+    const run = gen(function* () {
+      const value = yield* copy.err<number, string>("boom");
+      return ok(value + 1);
+    });
+
+    const result = run();
+    expect(result.isErr() && result.error).toBe("boom");
+  });
+
+  it("should convert a None from the other copy in gen", async () => {
+    const copy = await loadCopy();
+
+    const run = gen(function* () {
+      const value = yield* copy.none<number>();
+      return ok(value + 1);
+    });
+
+    expect(run().isErr()).toBe(true);
+  });
+
+  it("should short-circuit Option gen on a None from the other copy", async () => {
+    const copy = await loadCopy();
+
+    const run = OptionFactory.gen(function* () {
+      const value = yield* copy.none<number>();
+      return some(value + 1);
+    });
+
+    expect(run().isNone()).toBe(true);
+  });
+
+  it("should combine Results from both copies", async () => {
+    const copy = await loadCopy();
+
+    expect(all([ok(1), copy.err("boom")]).isErr()).toBe(true);
+    expect(partition([ok(1), copy.err("boom"), copy.ok(2)])).toEqual({
+      ok: [1, 2],
+      err: ["boom"],
+    });
+    expect(isOk(copy.ok(1))).toBe(true);
+    expect(copy.isNone(None.instance)).toBe(true);
+  });
+
+  it("should retry with a RetryPolicy from the other copy", async () => {
+    const copy = await loadCopy();
+    let attempts = 0;
+
+    const result = await tryPromise({
+      try: async () => {
+        attempts++;
+        throw new Error(`attempt ${attempts}`);
+      },
+      retry: new copy.RetryPolicy({ times: 2 }),
+    });
+
+    expect(attempts).toBe(3);
+    expect(result.isErr() && result.error).toBeInstanceOf(RetryError);
+    expect(result.isErr() && result.error.attempts).toBe(3);
+  });
+});
+
+describe("all", () => {
+  it("should reject values that are not Results", () => {
+    const fake = { _tag: "Err", error: "x" } as unknown as Result<
+      number,
+      string
+    >;
+
+    expect(() => all([ok(1), fake])).toThrow(TypeError);
+    expect(() => all({ a: ok(1), b: fake })).toThrow("Expected a Result, got");
+  });
+});
+
+describe("factories", () => {
+  const fake = { _tag: "Err", error: "x" } as unknown as Result<number, string>;
+  const missing = undefined as unknown as Result<number, string>;
+
+  it("should reject values that are not Results in partition", () => {
+    expect(() => partition([ok(1), fake])).toThrow("Expected a Result, got");
+    expect(() => partition([ok(1), missing])).toThrow(TypeError);
+    expect(() => partition({ a: ok(1), b: fake })).toThrow(TypeError);
+  });
+
+  it("should reject values that are not Results in validateAll", () => {
+    expect(() => validateAll([ok(1), fake])).toThrow("Expected a Result, got");
+    expect(() => validateAll({ a: ok(1), b: missing })).toThrow(TypeError);
+  });
+
+  it("should reject values that are not Results in any", () => {
+    expect(() => any([err("a"), fake])).toThrow("Expected a Result, got");
+    expect(() => any([missing, ok(1)])).toThrow(TypeError);
+  });
+
+  it("should reject values that are not Options in OptionFactory.all and any", () => {
+    const fakeOption = { _tag: "None" } as unknown as Option<number>;
+
+    expect(() => OptionFactory.all([some(1), fakeOption])).toThrow(
+      "Expected an Option, got"
+    );
+    expect(() =>
+      OptionFactory.all({
+        a: some(1),
+        b: undefined as unknown as Option<number>,
+      })
+    ).toThrow(TypeError);
+    expect(() => OptionFactory.any([none(), fakeOption])).toThrow(TypeError);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import {
+  fromEither,
+  fromFpTsOption,
+  fromNeverthrow,
+  fromPlain,
+  toEither,
+  toFpTsOption,
+  toNeverthrow,
+  toPlain,
+  type EitherLike,
+  type PlainResult,
+} from "../interop";
+import { err, none, ok, some, type Option, type Result } from "../index";
+
+// Minimal stand-ins with the same shape as neverthrow's classes.
+class NtOk<T, E> {
+  constructor(readonly value: T) {}
+  isOk(): this is NtOk<T, E> {
+    return true;
+  }
+  isErr(): this is NtErr<T, E> {
+    return false;
+  }
+}
+
+class NtErr<T, E> {
+  constructor(readonly error: E) {}
+  isOk(): this is NtOk<T, E> {
+    return false;
+  }
+  isErr(): this is NtErr<T, E> {
+    return true;
+  }
+}
+
+type NtResult<T, E> = NtOk<T, E> | NtErr<T, E>;
+
+describe("interop", () => {
+  describe("neverthrow", () => {
+    it("should convert neverthrow Results", () => {
+      const success: NtResult<number, string> = new NtOk(1);
+      const failure: NtResult<number, string> = new NtErr("boom");
+
+      const converted: Result<number, string> = fromNeverthrow(success);
+      expect(converted.unwrap()).toBe(1);
+      expect(fromNeverthrow(failure).isErr()).toBe(true);
+      expect(fromNeverthrow(failure).unwrapOr(0)).toBe(0);
+    });
+
+    it("should convert to neverthrow Results with its constructors", () => {
+      const constructors = {
+        ok: <T>(value: T) => new NtOk<T, never>(value),
+        err: <E>(error: E) => new NtErr<never, E>(error),
+      };
+
+      const success = toNeverthrow(ok<number, string>(1), constructors);
+      const failure = toNeverthrow(err<number, string>("boom"), constructors);
+
+      expect(success).toBeInstanceOf(NtOk);
+      expect(success.isOk() && success.value).toBe(1);
+      expect(failure).toBeInstanceOf(NtErr);
+      expect(failure.isErr() && failure.error).toBe("boom");
+    });
+  });
+
+  describe("fp-ts Either", () => {
+    it("should map Right to Ok and Left to Err", () => {
+      const right: EitherLike<string, number> = { _tag: "Right", right: 1 };
+      const left: EitherLike<string, number> = { _tag: "Left", left: "boom" };
+
+      const converted: Result<number, string> = fromEither(right);
+      expect(converted.unwrap()).toBe(1);
+      expect(fromEither(left).isErr()).toBe(true);
+    });
+
+    it("should map Ok to Right and Err to Left", () => {
+      expect(toEither(ok(1))).toEqual({ _tag: "Right", right: 1 });
+      expect(toEither(err("boom"))).toEqual({ _tag: "Left", left: "boom" });
+    });
+
+    it("should round-trip", () => {
+      const result: Result<number, string> = err("boom");
+
+      expect(fromEither(toEither(result))).toEqual(result);
+    });
+  });
+
+  describe("fp-ts Option", () => {
+    it("should convert fp-ts Options", () => {
+      const converted: Option<number> = fromFpTsOption({
+        _tag: "Some",
+        value: 1,
+      });
+
+      expect(converted.unwrap()).toBe(1);
+      expect(fromFpTsOption({ _tag: "None" }).isNone()).toBe(true);
+    });
+
+    it("should convert to fp-ts Options", () => {
+      expect(toFpTsOption(some(1))).toEqual({ _tag: "Some", value: 1 });
+      expect(toFpTsOption(none())).toEqual({ _tag: "None" });
+    });
+  });
+
+  describe("plain unions", () => {
+    it("should convert plain unions", () => {
+      const success: PlainResult<number, string> = { ok: true, value: 1 };
+      const failure: PlainResult<number, string> = { ok: false, error: "x" };
+
+      expect(fromPlain(success).unwrap()).toBe(1);
+      expect(fromPlain(failure).isErr()).toBe(true);
+    });
+
+    it("should convert to plain unions that survive JSON", () => {
+      const plain = toPlain(ok({ id: 1 }));
+
+      expect(plain).toEqual({ ok: true, value: { id: 1 } });
+      expect(toPlain(err("boom"))).toEqual({ ok: false, error: "boom" });
+      expect(fromPlain(JSON.parse(JSON.stringify(plain))).unwrap()).toEqual({
+        id: 1,
+      });
+    });
+  });
+});
@@ -0,0 +1,227 @@
+import { describe, it, expect } from "vitest";
+import {
+  ok,
+  err,
+  some,
+  none,
+  Ok,
+  Err,
+  Some,
+  None,
+  DecodeError,
+  OptionFactory,
+  ReleaseError,
+  RetryError,
+  ResultFactory,
+  TaggedError,
+  jsonReviver,
+} from "../index";
+
+class NotFound extends TaggedError("NotFound")<{ id: string }> {}
+
+describe("JSON", () => {
+  describe("toJSON", () => {
+    it("should serialize Ok and Err", () => {
+      expect(JSON.stringify(ok(42))).toBe('{"_tag":"Ok","value":42}');
+      expect(JSON.stringify(err("failed"))).toBe(
+        '{"_tag":"Err","error":"failed"}'
+      );
+    });
+
+    it("should serialize Some and None", () => {
+      expect(JSON.stringify(some([1, 2]))).toBe(
+        '{"_tag":"Some","value":[1,2]}'
+      );
+      expect(JSON.stringify(none())).toBe('{"_tag":"None"}');
+    });
+
+    it("should serialize Error instances as plain objects", () => {
+      const json = err(new NotFound({ id: "7", message: "missing" })).toJSON();
+
+      expect(json).toEqual({
+        _tag: "Err",
+        error: {
+          _tag: "NotFound",
+          id: "7",
+          name: "NotFound",
+          message: "missing",
+        },
+      });
+    });
+
+    it("should serialize errors held in fields and arrays", () => {
+      const retry = err(new RetryError(2, [new Error("a"), new Error("b")]));
+      const release = err(
+        new ReleaseError(new Error("close failed"), new Error("use failed"))
+      );
+
+      const revivedRetry = ResultFactory.fromJSON(JSON.stringify(retry));
+      const revivedRelease = ResultFactory.fromJSON(JSON.stringify(release));
+
+      expect(revivedRetry.unwrap().expectErr("should error")).toEqual({
+        _tag: "RetryError",
+        name: "RetryError",
+        message: "Failed after 2 attempts: Error: b",
+        attempts: 2,
+        errors: [
+          { name: "Error", message: "a" },
+          { name: "Error", message: "b" },
+        ],
+        cause: { name: "Error", message: "b" },
+      });
+      expect(revivedRelease.unwrap().expectErr("should error")).toEqual({
+        _tag: "ReleaseError",
+        name: "ReleaseError",
+        message: "Failed to release resource",
+        cause: { name: "Error", message: "close failed" },
+        suppressed: { name: "Error", message: "use failed" },
+      });
+    });
+
+    it("should mark circular error references", () => {
+      const error = new Error("loop") as Error & { self?: unknown };
+      error.self = error;
+
+      expect(err(error).toJSON()).toEqual({
+        _tag: "Err",
+        error: { self: "[Circular]", name: "Error", message: "loop" },
+      });
+    });
+
+    it("should serialize nested values", () => {
+      const payload = { user: ok({ name: "Ada" }), nickname: none() };
+
+      expect(JSON.parse(JSON.stringify(payload))).toEqual({
+        user: { _tag: "Ok", value: { name: "Ada" } },
+        nickname: { _tag: "None" },
+      });
+    });
+  });
+
+  describe("ResultFactory.fromJSON", () => {
+    it("should revive parsed values and JSON strings", () => {
+      const fromValue = ResultFactory.fromJSON({ _tag: "Ok", value: 1 });
+      const fromString = ResultFactory.fromJSON('{"_tag":"Err","error":"e"}');
+
+      expect(fromValue.unwrap()).toBeInstanceOf(Ok);
+      expect(fromValue.unwrap().unwrap()).toBe(1);
+      expect(fromString.unwrap()).toBeInstanceOf(Err);
+      expect(fromString.unwrap().expectErr("should error")).toBe("e");
+    });
+
+    it("should round-trip through JSON.stringify", () => {
+      const original = ok<{ id: number }, string>({ id: 3 });
+      const revived = ResultFactory.fromJSON(JSON.stringify(original));
+
+      expect(revived.unwrap().unwrap()).toEqual({ id: 3 });
+    });
+
+    it("should apply value and error decoders", () => {
+      const decoders = {
+        value: (raw: unknown) =>
+          typeof raw === "number" ? ok(raw) : err("not a number"),
+        error: (raw: unknown) =>
+          typeof raw === "string" ? ok(raw) : err("not a string"),
+      };
+
+      const valid = ResultFactory.fromJSON({ _tag: "Ok", value: 1 }, decoders);
+      expect(valid.unwrap().unwrap()).toBe(1);
+
+      const invalid = ResultFactory.fromJSON(
+        { _tag: "Ok", value: "1" },
+        decoders
+      );
+      const error = invalid.expectErr("should error");
+      expect(error).toBeInstanceOf(DecodeError);
+      expect(error.message).toBe("Invalid Ok value");
+      expect(error.cause).toBe("not a number");
+
+      const invalidError = ResultFactory.fromJSON(
+        { _tag: "Err", error: 500 },
+        decoders
+      );
+      expect(invalidError.expectErr("should error").message).toBe(
+        "Invalid Err error"
+      );
+    });
+
+    it("should return a DecodeError for malformed input", () => {
+      const inputs = [
+        "{not json",
+        null,
+        42,
+        [],
+        { _tag: "Ok", value: 1, extra: true },
+        { _tag: "Some", value: 1 },
+        { type: "Ok", value: 1 },
+      ];
+
+      for (const input of inputs) {
+        const result = ResultFactory.fromJSON(input);
+        expect(result.expectErr("should error")).toBeInstanceOf(DecodeError);
+      }
+    });
+  });
+
+  describe("OptionFactory.fromJSON", () => {
+    it("should revive Some and None", () => {
+      const revivedSome = OptionFactory.fromJSON('{"_tag":"Some","value":1}');
+      const revivedNone = OptionFactory.fromJSON({ _tag: "None" });
+
+      expect(revivedSome.unwrap()).toBeInstanceOf(Some);
+      expect(revivedSome.unwrap().unwrap()).toBe(1);
+      expect(revivedNone.unwrap()).toBe(None.instance);
+    });
+
+    it("should apply the value decoder", () => {
+      const decode = (raw: unknown) =>
+        typeof raw === "string" ? ok(raw) : err("not a string");
+
+      expect(
+        OptionFactory.fromJSON({ _tag: "Some", value: "a" }, decode)
+          .unwrap()
+          .unwrap()
+      ).toBe("a");
+      expect(
+        OptionFactory.fromJSON({ _tag: "Some", value: 1 }, decode).isErr()
+      ).toBe(true);
+    });
+
+    it("should return a DecodeError for malformed input", () => {
+      const result = OptionFactory.fromJSON({ _tag: "Ok", value: 1 });
+      expect(result.expectErr("should error")).toBeInstanceOf(DecodeError);
+    });
+  });
+
+  describe("jsonReviver", () => {
+    it("should restore nested Results and Options anywhere in a payload", () => {
+      const payload = {
+        users: [ok({ name: "Ada", nickname: some("ada") }), err("missing")],
+        meta: { cursor: none() },
+      };
+
+      const revived = JSON.parse(JSON.stringify(payload), jsonReviver);
+
+      expect(revived.users[0]).toBeInstanceOf(Ok);
+      expect(revived.users[0].unwrap().nickname).toBeInstanceOf(Some);
+      expect(revived.users[0].unwrap().nickname.unwrap()).toBe("ada");
+      expect(revived.users[1]).toBeInstanceOf(Err);
+      expect(revived.users[1].expectErr("should error")).toBe("missing");
+      expect(revived.meta.cursor).toBe(None.instance);
+    });
+
+    it("should leave other objects untouched", () => {
+      const revived = JSON.parse(
+        '{"_tag":"Ok","value":1,"extra":2,"list":[{"_tag":"Other"}]}',
+        jsonReviver
+      );
+
+      expect(revived).toEqual({
+        _tag: "Ok",
+        value: 1,
+        extra: 2,
+        list: [{ _tag: "Other" }],
+      });
+    });
+  });
+});
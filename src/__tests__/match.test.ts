@@ -0,0 +1,168 @@
+import { describe, it, expect } from "vitest";
+import {
+  err,
+  matchOption,
+  matchResult,
+  none,
+  ok,
+  some,
+  TaggedError,
+  type Option,
+  type Result,
+} from "../index";
+
+class NotFound extends TaggedError("NotFound")<{ id: string }> {}
+class Forbidden extends TaggedError("Forbidden") {}
+
+type HttpError = { kind: "http"; status: number };
+type User = {
+  name: string;
+  role: "admin" | "member";
+  address: { city: string };
+};
+
+const ada: User = { name: "Ada", role: "admin", address: { city: "London" } };
+const bob: User = { name: "Bob", role: "member", address: { city: "Paris" } };
+
+describe("matchResult", () => {
+  const describeResult = (
+    result: Result<User, NotFound | Forbidden | HttpError>
+  ) =>
+    matchResult(result)
+      .ok({ role: "admin" }, (admin) => `admin ${admin.name}`)
+      .ok({ address: { city: "Paris" } }, (user) => `parisian ${user.name}`)
+      .ok((user) => `user ${user.name}`)
+      .errTag("NotFound", (e) => `missing ${e.id}`)
+      .errTag("Forbidden", () => "forbidden")
+      .err({ kind: "http", status: 503 }, () => "unavailable")
+      .err((e) => `http ${e.status}`)
+      .exhaustive();
+
+  it("should run the first matching Ok branch", () => {
+    expect(describeResult(ok(ada))).toBe("admin Ada");
+    expect(describeResult(ok(bob))).toBe("parisian Bob");
+    expect(describeResult(ok({ ...bob, address: { city: "Rome" } }))).toBe(
+      "user Bob"
+    );
+  });
+
+  it("should run branches per error variant", () => {
+    expect(describeResult(err(new NotFound({ id: "42" })))).toBe("missing 42");
+    expect(describeResult(err(new Forbidden()))).toBe("forbidden");
+    expect(describeResult(err({ kind: "http", status: 503 }))).toBe(
+      "unavailable"
+    );
+    expect(describeResult(err({ kind: "http", status: 500 }))).toBe("http 500");
+  });
+
+  it("should support predicate guards and type guards", () => {
+    const classify = (result: Result<number, string | number>) =>
+      matchResult(result)
+        .ok(
+          (n) => n < 0,
+          () => "negative"
+        )
+        .ok(() => "non-negative")
+        .err(
+          (e): e is string => typeof e === "string",
+          (e) => e.toUpperCase()
+        )
+        .err((code) => `code ${code.toFixed(0)}`)
+        .exhaustive();
+
+    expect(classify(ok(-1))).toBe("negative");
+    expect(classify(ok(1))).toBe("non-negative");
+    expect(classify(err("boom"))).toBe("BOOM");
+    expect(classify(err(7))).toBe("code 7");
+  });
+
+  it("should match literal values", () => {
+    const result: Result<"a" | "b", never> = ok("b");
+
+    expect(
+      matchResult(result)
+        .ok("a", () => 1)
+        .ok("b", () => 2)
+        .exhaustive()
+    ).toBe(2);
+  });
+
+  it("should fall back to otherwise", () => {
+    const result: Result<number, NotFound | Forbidden> = err(new Forbidden());
+
+    expect(
+      matchResult(result)
+        .errTag("NotFound", () => "missing")
+        .otherwise((r) => (r.isOk() ? "ok" : `fallback ${r.error._tag}`))
+    ).toBe("fallback Forbidden");
+  });
+
+  it("should reject non-exhaustive matches at compile time", () => {
+    const result: Result<number, NotFound | Forbidden> = ok(1);
+    const partial = matchResult(result)
+      .ok(() => "ok")
+      .errTag("NotFound", () => "missing");
+
+    // @ts-expect-error Forbidden is not handled
+    expect(() => partial.exhaustive()).not.toThrow();
+
+    const predicateOnly = matchResult(result)
+      .ok(
+        (n) => n > 0,
+        () => "positive"
+      )
+      .err(() => "error");
+
+    // @ts-expect-error a predicate does not handle every Ok value
+    expect(predicateOnly.exhaustive()).toBe("positive");
+  });
+
+  it("should throw when no branch matches at runtime", () => {
+    const result: Result<number, string> = err("boom");
+    const partial = matchResult(result).ok(() => "ok");
+
+    // @ts-expect-error the error is not handled
+    expect(() => partial.exhaustive()).toThrow("Unhandled value");
+  });
+});
+
+describe("matchOption", () => {
+  const label = (option: Option<number>) =>
+    matchOption(option)
+      .some(0, () => "zero")
+      .some(
+        (n) => n < 0,
+        () => "negative"
+      )
+      .some((n) => `positive ${n}`)
+      .none(() => "none")
+      .exhaustive();
+
+  it("should run the first matching branch", () => {
+    expect(label(some(0))).toBe("zero");
+    expect(label(some(-3))).toBe("negative");
+    expect(label(some(3))).toBe("positive 3");
+    expect(label(none())).toBe("none");
+  });
+
+  it("should match nested object patterns", () => {
+    const city = (option: Option<User>) =>
+      matchOption(option)
+        .some(
+          { address: { city: "London" } },
+          (user) => `${user.name} in London`
+        )
+        .otherwise(() => "elsewhere");
+
+    expect(city(some(ada))).toBe("Ada in London");
+    expect(city(some(bob))).toBe("elsewhere");
+    expect(city(none())).toBe("elsewhere");
+  });
+
+  it("should require None to be handled", () => {
+    const partial = matchOption(some(1)).some(() => "some");
+
+    // @ts-expect-error None is not handled
+    expect(partial.exhaustive()).toBe("some");
+  });
+});
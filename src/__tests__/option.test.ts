@@ -1,5 +1,16 @@
 import { describe, it, expect } from "vitest";
-import { some, none, fromNullable } from "../index";
+import {
+  ok,
+  err,
+  some,
+  none,
+  fromNullable,
+  None,
+  NoneUnwrapError,
+  OptionFactory,
+  type Option,
+  type Result,
+} from "../index";
 
 describe("Option", () => {
   describe("Some", () => {
@@ -94,6 +105,12 @@ describe("Option", () => {
       expect(() => opt.unwrap()).toThrow("Called unwrap on a None value");
     });
 
+    it("should throw a NoneUnwrapError", () => {
+      const opt = none<number>();
+      expect(() => opt.unwrap()).toThrow(NoneUnwrapError);
+      expect(() => opt.expect("Missing user")).toThrow(NoneUnwrapError);
+    });
+
     it("should return default with unwrapOr", () => {
       const opt = none<number>();
       expect(opt.unwrapOr(99)).toBe(99);
@@ -155,6 +172,196 @@ describe("Option", () => {
     });
   });
 
+  describe("Result conversions", () => {
+    it("should create an Option from a Result", () => {
+      expect(OptionFactory.fromResult(ok(1)).unwrap()).toBe(1);
+      expect(OptionFactory.fromResult(err("e"))).toBe(None.instance);
+    });
+
+    it("should transpose an Option of a Result", () => {
+      const someOk: Option<Result<number, string>> = some(ok(1));
+      const someErr: Option<Result<number, string>> = some(err("e"));
+      const empty: Option<Result<number, string>> = none();
+
+      const transposed: Result<Option<number>, string> = someOk.transpose();
+      expect(transposed.unwrap().unwrap()).toBe(1);
+      expect(someErr.transpose().expectErr("should error")).toBe("e");
+      expect(empty.transpose().unwrap()).toBe(None.instance);
+    });
+
+    it("should round-trip through transpose", () => {
+      const original: Result<Option<number>, string> = ok(some(2));
+      expect(original.transpose().transpose().unwrap().unwrap()).toBe(2);
+    });
+
+    it("should flatten nested Options", () => {
+      const nested: Option<Option<number>> = some(some(1));
+      const flat: Option<number> = nested.flatten();
+
+      expect(flat.unwrap()).toBe(1);
+      expect(some(none()).flatten()).toBe(None.instance);
+      expect(none<Option<number>>().flatten()).toBe(None.instance);
+    });
+  });
+
+  describe("combinators", () => {
+    it("should zip two Somes into a tuple", () => {
+      const zipped: Option<[number, string]> = some(1).zip(some("a"));
+
+      expect(zipped.unwrap()).toEqual([1, "a"]);
+      expect(some(1).zip(none<string>()).isNone()).toBe(true);
+      expect(none<number>().zip(some("a")).isNone()).toBe(true);
+    });
+
+    it("should zip with a function", () => {
+      expect(
+        some(2)
+          .zipWith(some(3), (a, b) => a * b)
+          .unwrap()
+      ).toBe(6);
+      expect(
+        none<number>()
+          .zipWith(some(3), (a, b) => a * b)
+          .isNone()
+      ).toBe(true);
+    });
+
+    it("should return Some only when exactly one side is Some", () => {
+      expect(some(1).xor(none<number>()).unwrap()).toBe(1);
+      expect(none<number>().xor(some(2)).unwrap()).toBe(2);
+      expect(some(1).xor(some(2)).isNone()).toBe(true);
+      expect(none<number>().xor(none<number>()).isNone()).toBe(true);
+    });
+
+    it("should compute the fallback lazily in orElse", () => {
+      let calls = 0;
+      const fallback = () => {
+        calls++;
+        return some(0);
+      };
+
+      expect(some(1).orElse(fallback).unwrap()).toBe(1);
+      expect(calls).toBe(0);
+      expect(none<number>().orElse(fallback).unwrap()).toBe(0);
+      expect(calls).toBe(1);
+    });
+
+    it("should map or fall back to a default", () => {
+      expect(some(2).mapOr(0, (x) => x * 2)).toBe(4);
+      expect(none<number>().mapOr(0, (x) => x * 2)).toBe(0);
+      expect(
+        some(2).mapOrElse(
+          () => -1,
+          (x) => x * 2
+        )
+      ).toBe(4);
+      expect(
+        none<number>().mapOrElse(
+          () => -1,
+          (x) => x * 2
+        )
+      ).toBe(-1);
+    });
+
+    it("should inspect the value without changing the option", () => {
+      const seen: number[] = [];
+      const option = some(1);
+
+      expect(option.inspect((x) => seen.push(x))).toBe(option);
+      expect(
+        none<number>()
+          .inspect((x) => seen.push(x))
+          .isNone()
+      ).toBe(true);
+      expect(seen).toEqual([1]);
+    });
+
+    it("should convert to nullable and undefined values", () => {
+      expect(some(1).toNullable()).toBe(1);
+      expect(none().toNullable()).toBeNull();
+      expect(some(1).toUndefined()).toBe(1);
+      expect(none().toUndefined()).toBeUndefined();
+    });
+  });
+
+  describe("factories", () => {
+    it("should create options from a predicate", () => {
+      expect(OptionFactory.fromPredicate(5, (x) => x > 0).unwrap()).toBe(5);
+      expect(OptionFactory.fromPredicate(-5, (x) => x > 0).isNone()).toBe(true);
+
+      const value: string | number = "a" as string | number;
+      const narrowed: Option<string> = OptionFactory.fromPredicate(
+        value,
+        (v): v is string => typeof v === "string"
+      );
+      expect(narrowed.unwrap()).toBe("a");
+    });
+
+    it("should read array elements within bounds", () => {
+      const items = ["a", undefined, "c"];
+
+      expect(OptionFactory.fromIndex(items, 0).unwrap()).toBe("a");
+      expect(OptionFactory.fromIndex(items, 1).isSome()).toBe(true);
+      expect(OptionFactory.fromIndex(items, 3).isNone()).toBe(true);
+      expect(OptionFactory.fromIndex(items, -1).isNone()).toBe(true);
+      expect(OptionFactory.fromIndex(items, 0.5).isNone()).toBe(true);
+    });
+
+    it("should read map entries, keeping stored undefined values", () => {
+      const map = new Map<string, number | undefined>([
+        ["a", 1],
+        ["b", undefined],
+      ]);
+
+      expect(OptionFactory.fromMapGet(map, "a").unwrap()).toBe(1);
+      expect(OptionFactory.fromMapGet(map, "b").isSome()).toBe(true);
+      expect(OptionFactory.fromMapGet(map, "c").isNone()).toBe(true);
+    });
+
+    it("should treat NaN, null and undefined as None in fromNumber", () => {
+      expect(OptionFactory.fromNumber(0).unwrap()).toBe(0);
+      expect(OptionFactory.fromNumber(Number.NaN).isNone()).toBe(true);
+      expect(OptionFactory.fromNumber(null).isNone()).toBe(true);
+      expect(OptionFactory.fromNumber(undefined).isNone()).toBe(true);
+    });
+  });
+
+  describe("all and any", () => {
+    it("should combine a tuple of Somes", () => {
+      const combined: Option<[number, string]> = OptionFactory.all([
+        some(1),
+        some("a"),
+      ]);
+
+      expect(combined.unwrap()).toEqual([1, "a"]);
+    });
+
+    it("should combine a record of Somes", () => {
+      const combined = OptionFactory.all({ name: some("Ada"), age: some(36) });
+      const value: { name: string; age: number } = combined.unwrap();
+
+      expect(value).toEqual({ name: "Ada", age: 36 });
+    });
+
+    it("should return None if any option is None", () => {
+      expect(OptionFactory.all([some(1), none<number>()]).isNone()).toBe(true);
+      expect(
+        OptionFactory.all({ a: some(1), b: none<number>() }).isNone()
+      ).toBe(true);
+      expect(OptionFactory.all([]).unwrap()).toEqual([]);
+    });
+
+    it("should return the first Some", () => {
+      expect(
+        OptionFactory.any([none<number>(), some(2), some(3)]).unwrap()
+      ).toBe(2);
+      expect(
+        OptionFactory.any({ a: none<number>(), b: some("b") }).unwrap()
+      ).toBe("b");
+      expect(OptionFactory.any([none(), none()]).isNone()).toBe(true);
+    });
+  });
+
   describe("fromNullable", () => {
     it("should convert non-null values to Some", () => {
       expect(fromNullable(42).unwrap()).toBe(42);
@@ -1,5 +1,20 @@
 import { describe, it, expect } from "vitest";
-import { ok, err, fromThrowable, fromPromise } from "../index";
+import {
+  ok,
+  err,
+  fromThrowable,
+  fromPromise,
+  bracket,
+  bracketAsync,
+  ReleaseError,
+  UnwrapError,
+  ExpectError,
+  some,
+  none,
+  None,
+  type Option,
+  type Result,
+} from "../index";
 
 describe("Result", () => {
   describe("Ok", () => {
@@ -134,6 +149,91 @@ describe("Result", () => {
       const result = err<number, string>("my-error");
       expect(result.expectErr("message")).toBe("my-error");
     });
+
+    it("should throw an UnwrapError carrying the original error", () => {
+      const original = new Error("connection refused");
+
+      try {
+        err(original).unwrap();
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(UnwrapError);
+        expect((error as UnwrapError<Error>).cause).toBe(original);
+        expect((error as Error).message).toBe(
+          "Called unwrap on an Err value: Error: connection refused"
+        );
+      }
+    });
+
+    it("should throw an ExpectError carrying the original error", () => {
+      try {
+        err({ code: 404 }).expect("Failed to load user");
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(ExpectError);
+        expect((error as ExpectError).cause).toEqual({ code: 404 });
+        expect((error as Error).message).toBe(
+          'Failed to load user: {"code":404}'
+        );
+      }
+    });
+
+    it("should format circular and BigInt payloads safely", () => {
+      const cyclic: Record<string, unknown> = { name: "node" };
+      cyclic["self"] = cyclic;
+
+      expect(() => err(cyclic).unwrap()).toThrow(
+        'Called unwrap on an Err value: {"name":"node","self":"[Circular]"}'
+      );
+      expect(() => err(10n).unwrap()).toThrow(
+        "Called unwrap on an Err value: 10n"
+      );
+      expect(() => err({ amount: 10n }).expect("Invalid")).toThrow(
+        'Invalid: {"amount":"10n"}'
+      );
+    });
+
+    it("should format repeated non-circular references", () => {
+      const shared = { id: 1 };
+
+      expect(() => err({ a: shared, b: shared }).unwrap()).toThrow(
+        'Called unwrap on an Err value: {"a":{"id":1},"b":{"id":1}}'
+      );
+    });
+  });
+
+  describe("Option conversions", () => {
+    it("should convert to an Option of the Ok value", () => {
+      expect(ok(1).okOption().unwrap()).toBe(1);
+      expect(err("e").okOption()).toBe(None.instance);
+    });
+
+    it("should convert to an Option of the Err value", () => {
+      expect(err("e").errOption().unwrap()).toBe("e");
+      expect(ok(1).errOption()).toBe(None.instance);
+    });
+
+    it("should transpose a Result of an Option", () => {
+      const someOk: Result<Option<number>, string> = ok(some(1));
+      const noneOk: Result<Option<number>, string> = ok(none());
+      const failed: Result<Option<number>, string> = err("e");
+
+      const transposed: Option<Result<number, string>> = someOk.transpose();
+      expect(transposed.unwrap().unwrap()).toBe(1);
+      expect(noneOk.transpose()).toBe(None.instance);
+      expect(failed.transpose().unwrap().expectErr("should error")).toBe("e");
+    });
+
+    it("should flatten nested Results", () => {
+      const nested: Result<Result<number, "inner">, "outer"> = ok(ok(1));
+      const flat: Result<number, "inner" | "outer"> = nested.flatten();
+
+      expect(flat.unwrap()).toBe(1);
+      expect(ok(err("inner")).flatten().expectErr("should error")).toBe(
+        "inner"
+      );
+      expect(err("outer").flatten().expectErr("should error")).toBe("outer");
+    });
   });
 
   describe("fromThrowable", () => {
@@ -181,4 +281,216 @@ describe("Result", () => {
       expect(error.message).toBe("test error");
     });
   });
+
+  describe("bracket", () => {
+    const createResource = () => {
+      const events: string[] = [];
+      return {
+        events,
+        acquire: () => {
+          events.push("acquire");
+          return ok({ id: 1 });
+        },
+        release: () => {
+          events.push("release");
+        },
+      };
+    };
+
+    it("should release after an Ok", () => {
+      const { events, acquire, release } = createResource();
+
+      const result = bracket({
+        acquire,
+        use: (resource) => ok(resource.id * 10),
+        release,
+      });
+
+      expect(result.unwrap()).toBe(10);
+      expect(events).toEqual(["acquire", "release"]);
+    });
+
+    it("should release after an Err", () => {
+      const { events, acquire, release } = createResource();
+
+      const result = bracket({
+        acquire,
+        use: () => err("query failed"),
+        release,
+      });
+
+      expect(result.expectErr("should error")).toBe("query failed");
+      expect(events).toEqual(["acquire", "release"]);
+    });
+
+    it("should release and rethrow when use throws", () => {
+      const { events, acquire, release } = createResource();
+
+      expect(() =>
+        bracket({
+          acquire,
+          use: () => {
+            throw new Error("boom");
+          },
+          release,
+        })
+      ).toThrow("boom");
+      expect(events).toEqual(["acquire", "release"]);
+    });
+
+    it("should not release when acquire fails", () => {
+      let released = false;
+
+      const result = bracket({
+        acquire: () => err("no connection"),
+        use: () => ok(1),
+        release: () => {
+          released = true;
+        },
+      });
+
+      expect(result.expectErr("should error")).toBe("no connection");
+      expect(released).toBe(false);
+    });
+
+    it("should surface release failures", () => {
+      const afterOk = bracket({
+        acquire: () => ok(1),
+        use: (x) => ok(x),
+        release: () => err("close failed"),
+      });
+
+      const releaseError = afterOk.expectErr("should error");
+      expect(releaseError).toBeInstanceOf(ReleaseError);
+      expect((releaseError as ReleaseError<string>).cause).toBe("close failed");
+
+      const afterErr = bracket({
+        acquire: () => ok(1),
+        use: () => err("query failed"),
+        release: () => err("close failed"),
+      });
+
+      const combined = afterErr.expectErr("should error") as ReleaseError;
+      expect(combined.cause).toBe("close failed");
+      expect(combined.suppressed).toBe("query failed");
+    });
+
+    it("should throw a ReleaseError when use throws and release fails", () => {
+      const thrown = new Error("boom");
+
+      try {
+        bracket({
+          acquire: () => ok(1),
+          use: () => {
+            throw thrown;
+          },
+          release: () => err("close failed"),
+        });
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(ReleaseError);
+        expect((error as ReleaseError).cause).toBe("close failed");
+        expect((error as ReleaseError).suppressed).toBe(thrown);
+      }
+    });
+
+    it("should keep the use error when both use and release throw", () => {
+      const useError = new Error("use failed");
+      const releaseError = new Error("release failed");
+
+      const run = (use: () => Result<number, string>) =>
+        bracket({
+          acquire: () => ok(1),
+          use,
+          release: () => {
+            throw releaseError;
+          },
+        });
+
+      expect(() =>
+        run(() => {
+          throw useError;
+        })
+      ).toThrow(
+        expect.objectContaining({ cause: releaseError, suppressed: useError })
+      );
+      expect(() => run(() => err("query failed"))).toThrow(
+        expect.objectContaining({
+          cause: releaseError,
+          suppressed: "query failed",
+        })
+      );
+      expect(() => run(() => ok(2))).toThrow(ReleaseError);
+    });
+  });
+
+  describe("bracketAsync", () => {
+    it("should release async resources after an Ok", async () => {
+      const events: string[] = [];
+
+      const result = await bracketAsync({
+        acquire: async () => {
+          events.push("acquire");
+          return ok("connection");
+        },
+        use: (conn) => fromPromise(Promise.resolve(`${conn} used`)),
+        release: async () => {
+          events.push("release");
+        },
+      });
+
+      expect(result.unwrap()).toBe("connection used");
+      expect(events).toEqual(["acquire", "release"]);
+    });
+
+    it("should release when use rejects", async () => {
+      let released = false;
+
+      const result = bracketAsync({
+        acquire: () => ok(1),
+        use: async () => {
+          throw new Error("boom");
+        },
+        release: () => {
+          released = true;
+        },
+      });
+
+      await expect(result).rejects.toThrow("boom");
+      expect(released).toBe(true);
+    });
+
+    it("should surface async release failures", async () => {
+      const result = await bracketAsync({
+        acquire: () => ok(1),
+        use: async () => err("query failed"),
+        release: async () => err("close failed"),
+      });
+
+      const error = result.expectErr("should error") as ReleaseError;
+      expect(error.cause).toBe("close failed");
+      expect(error.suppressed).toBe("query failed");
+    });
+
+    it("should keep the use error when both use and release reject", async () => {
+      const useError = new Error("use failed");
+      const releaseError = new Error("release failed");
+
+      const result = bracketAsync({
+        acquire: () => ok(1),
+        use: async () => {
+          throw useError;
+        },
+        release: async () => {
+          throw releaseError;
+        },
+      });
+
+      await expect(result).rejects.toBeInstanceOf(ReleaseError);
+      await expect(result).rejects.toMatchObject({
+        cause: releaseError,
+        suppressed: useError,
+      });
+    });
+  });
 });
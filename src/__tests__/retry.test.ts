@@ -0,0 +1,284 @@
+import { describe, it, expect } from "vitest";
+import {
+  tryPromise,
+  RetryPolicy,
+  RetryError,
+  TimeoutError,
+  AbortError,
+  type Clock,
+  type Result,
+} from "../index";
+
+/**
+ * A clock that fires every timer on the next microtask and records the requested delays.
+ */
+const createImmediateClock = () => {
+  const delays: number[] = [];
+  const cleared = new Set<unknown>();
+  let nextId = 0;
+
+  const clock: Clock = {
+    now: () => 0,
+    setTimeout: (callback, ms) => {
+      const id = nextId++;
+      delays.push(ms);
+      queueMicrotask(() => {
+        if (!cleared.has(id)) {
+          callback();
+        }
+      });
+      return id;
+    },
+    clearTimeout: (id) => {
+      cleared.add(id);
+    },
+  };
+
+  return { clock, delays };
+};
+
+const failingTimes = (failures: number, error: unknown = "boom") => {
+  let attempts = 0;
+  return {
+    get attempts() {
+      return attempts;
+    },
+    run: async () => {
+      attempts++;
+      if (attempts <= failures) {
+        throw error;
+      }
+      return "done";
+    },
+  };
+};
+
+describe("RetryPolicy", () => {
+  describe("delayFor", () => {
+    it("should compute constant, linear and exponential backoff", () => {
+      const constant = new RetryPolicy({ times: 3, delayMs: 100 });
+      const linear = constant.with({ backoff: "linear" });
+      const exponential = constant.with({ backoff: "exponential" });
+
+      expect([1, 2, 3].map((n) => constant.delayFor(n))).toEqual([
+        100, 100, 100,
+      ]);
+      expect([1, 2, 3].map((n) => linear.delayFor(n))).toEqual([100, 200, 300]);
+      expect([1, 2, 3].map((n) => exponential.delayFor(n))).toEqual([
+        100, 200, 400,
+      ]);
+    });
+
+    it("should cap the delay", () => {
+      const policy = new RetryPolicy({
+        times: 5,
+        delayMs: 100,
+        backoff: "exponential",
+        maxDelayMs: 250,
+      });
+
+      expect(policy.delayFor(4)).toBe(250);
+    });
+
+    it("should apply full and equal jitter", () => {
+      const policy = new RetryPolicy({
+        times: 1,
+        delayMs: 100,
+        random: () => 0.5,
+      });
+
+      expect(policy.with({ jitter: "full" }).delayFor(1)).toBe(50);
+      expect(policy.with({ jitter: "equal" }).delayFor(1)).toBe(75);
+    });
+  });
+
+  describe("with tryPromise", () => {
+    it("should retry until the operation succeeds", async () => {
+      const { clock, delays } = createImmediateClock();
+      const operation = failingTimes(2);
+
+      const result = await tryPromise({
+        try: operation.run,
+        retry: new RetryPolicy({
+          times: 3,
+          delayMs: 10,
+          backoff: "exponential",
+          clock,
+        }),
+      });
+
+      expect(result.unwrap()).toBe("done");
+      expect(operation.attempts).toBe(3);
+      expect(delays).toEqual([10, 20]);
+    });
+
+    it("should report every attempt's error when retries are exhausted", async () => {
+      const { clock } = createImmediateClock();
+      let attempt = 0;
+
+      const result: Result<string, RetryError<string>> = await tryPromise({
+        try: async (): Promise<string> => {
+          throw new Error(`attempt ${++attempt}`);
+        },
+        catch: (error) => (error as Error).message,
+        retry: new RetryPolicy<string>({ times: 2, clock }),
+      });
+
+      const error = result.expectErr("should error");
+      expect(error).toBeInstanceOf(RetryError);
+      expect(error.attempts).toBe(3);
+      expect(error.errors).toEqual(["attempt 1", "attempt 2", "attempt 3"]);
+      expect(error.cause).toBe("attempt 3");
+      expect(error.message).toBe('Failed after 3 attempts: "attempt 3"');
+    });
+
+    it("should only retry errors accepted by shouldRetry", async () => {
+      const { clock } = createImmediateClock();
+      const operation = failingTimes(5, { status: 404 });
+
+      const result = await tryPromise({
+        try: operation.run,
+        catch: (error) => error as { status: number },
+        retry: new RetryPolicy<{ status: number }>({
+          times: 5,
+          clock,
+          shouldRetry: (error) => error.status >= 500,
+        }),
+      });
+
+      expect(operation.attempts).toBe(1);
+      expect(result.expectErr("should error").attempts).toBe(1);
+    });
+
+    it("should call onRetry before each retry", async () => {
+      const { clock } = createImmediateClock();
+      const events: unknown[] = [];
+
+      await tryPromise({
+        try: failingTimes(2).run,
+        catch: String,
+        retry: new RetryPolicy<string>({
+          times: 3,
+          delayMs: 5,
+          clock,
+          onRetry: (event) => events.push(event),
+        }),
+      });
+
+      expect(events).toEqual([
+        { error: "boom", attempt: 1, delayMs: 5 },
+        { error: "boom", attempt: 2, delayMs: 5 },
+      ]);
+    });
+
+    it("should time out slow attempts and abort their signal", async () => {
+      const { clock } = createImmediateClock();
+      const signals: AbortSignal[] = [];
+
+      const result = await tryPromise({
+        try: (signal) => {
+          signals.push(signal);
+          return new Promise<string>(() => {});
+        },
+        retry: new RetryPolicy({ times: 1, timeoutMs: 1000, clock }),
+      });
+
+      const error = result.expectErr("should error");
+      expect(error.errors).toHaveLength(2);
+      expect(error.errors[0]).toBeInstanceOf(TimeoutError);
+      expect(signals.every((signal) => signal.aborted)).toBe(true);
+    });
+
+    it("should stop retrying when the signal aborts", async () => {
+      const controller = new AbortController();
+      const policy = new RetryPolicy({ times: 10, delayMs: 60_000 });
+      let attempts = 0;
+
+      const pending = tryPromise({
+        try: async () => {
+          attempts++;
+          throw new Error("unavailable");
+        },
+        retry: policy.with({ signal: controller.signal }),
+      });
+      setTimeout(() => controller.abort(), 5);
+
+      const error = (await pending).expectErr("should error");
+      expect(attempts).toBe(1);
+      expect(error.attempts).toBe(1);
+      expect(error.errors).toHaveLength(2);
+      expect(error.errors[1]).toBeInstanceOf(AbortError);
+      expect(error.cause).toBeInstanceOf(AbortError);
+    });
+
+    it("should end with an AbortError when the signal aborts during an attempt", async () => {
+      const controller = new AbortController();
+      let attempts = 0;
+
+      const pending = tryPromise({
+        try: () => {
+          attempts++;
+          return new Promise<string>(() => {});
+        },
+        retry: new RetryPolicy({ times: 3, signal: controller.signal }),
+      });
+      setTimeout(() => controller.abort(), 5);
+
+      const error = (await pending).expectErr("should error");
+      expect(attempts).toBe(1);
+      expect(error.attempts).toBe(1);
+      expect(error.errors).toHaveLength(1);
+      expect(error.cause).toBeInstanceOf(AbortError);
+    });
+
+    it("should not start when the signal is already aborted", async () => {
+      let started = false;
+      const result = await tryPromise({
+        try: async () => {
+          started = true;
+          return 1;
+        },
+        retry: new RetryPolicy({ times: 3, signal: AbortSignal.abort() }),
+      });
+
+      const error = result.expectErr("should error");
+      expect(started).toBe(false);
+      expect(error.attempts).toBe(0);
+      expect(error.errors).toHaveLength(1);
+      expect(error.errors[0]).toBeInstanceOf(AbortError);
+    });
+
+    it("should keep returning the last error with the legacy retry option", async () => {
+      let attempt = 0;
+      const result = await tryPromise({
+        try: async (): Promise<string> => {
+          throw new Error(`attempt ${++attempt}`);
+        },
+        retry: { times: 1, delayMs: 1 },
+      });
+
+      expect(result.expectErr("should error").message).toBe("attempt 2");
+    });
+
+    it("should map only the last error and pass no arguments with the legacy retry option", async () => {
+      const received: unknown[][] = [];
+      const mapped: unknown[] = [];
+
+      const result = await tryPromise({
+        try: async (...args: unknown[]): Promise<string> => {
+          received.push(args);
+          throw new Error(`attempt ${received.length}`);
+        },
+        catch: (error) => {
+          mapped.push(error);
+          return String(error);
+        },
+        retry: { times: 2, delayMs: 0 },
+      });
+
+      expect(result.expectErr("should error")).toBe("Error: attempt 3");
+      expect(received).toEqual([[], [], []]);
+      expect(mapped).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import { describe, it, expect } from "vitest";
+import {
+  ok,
+  okAsync,
+  err,
+  genAsync,
+  allAsync,
+  withTimeout,
+  deadline,
+  TimeoutError,
+  AbortError,
+  type Clock,
+  type Result,
+} from "../index";
+
+const createManualClock = () => {
+  let now = 0;
+  let nextId = 0;
+  const timers = new Map<number, { at: number; callback: () => void }>();
+
+  const clock: Clock = {
+    now: () => now,
+    setTimeout: (callback, ms) => {
+      const id = nextId++;
+      timers.set(id, { at: now + ms, callback });
+      return id;
+    },
+    clearTimeout: (id) => {
+      timers.delete(id as number);
+    },
+  };
+
+  return {
+    clock,
+    timers,
+    advance: (ms: number) => {
+      now += ms;
+      for (const [id, timer] of [...timers]) {
+        if (timer.at <= now) {
+          timers.delete(id);
+          timer.callback();
+        }
+      }
+    },
+  };
+};
+
+const never =
+  <T>(signals: AbortSignal[] = []) =>
+  (signal: AbortSignal) => {
+    signals.push(signal);
+    return new Promise<Result<T, string>>(() => {});
+  };
+
+describe("withTimeout", () => {
+  it("should pass results through when the work finishes in time", async () => {
+    const { clock, timers } = createManualClock();
+
+    const result = await withTimeout(okAsync(42), 1000, { clock });
+
+    expect(result.unwrap()).toBe(42);
+    expect(timers.size).toBe(0);
+  });
+
+  it("should keep errors of the work", async () => {
+    const result = await withTimeout(
+      async () => err<number, string>("failed"),
+      1000
+    );
+
+    expect(result.expectErr("should error")).toBe("failed");
+  });
+
+  it("should fail with a TimeoutError and abort the work", async () => {
+    const { clock, advance } = createManualClock();
+    const signals: AbortSignal[] = [];
+
+    const pending = withTimeout(never<number>(signals), 1000, { clock });
+    await Promise.resolve();
+    advance(1000);
+
+    const error = (await pending).expectErr("should error");
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect((error as TimeoutError).timeoutMs).toBe(1000);
+    expect(signals[0]?.aborted).toBe(true);
+    expect(signals[0]?.reason).toBe(error);
+  });
+
+  it("should abort the work when the caller's signal aborts", async () => {
+    const controller = new AbortController();
+    const result = await withTimeout(
+      (signal) =>
+        new Promise<Result<number, string>>((resolve) => {
+          signal.addEventListener("abort", () => resolve(err("cancelled")));
+          controller.abort();
+        }),
+      60_000,
+      { signal: controller.signal }
+    );
+
+    expect(result.expectErr("should error")).toBe("cancelled");
+  });
+
+  it("should clear the timer when the work rejects", async () => {
+    const { clock, timers } = createManualClock();
+
+    await expect(
+      withTimeout(() => Promise.reject(new Error("boom")), 1000, { clock })
+    ).rejects.toThrow("boom");
+    expect(timers.size).toBe(0);
+  });
+});
+
+describe("deadline", () => {
+  it("should track the remaining budget", () => {
+    const { clock, advance } = createManualClock();
+    const budget = deadline(1000, { clock });
+
+    advance(300);
+    expect(budget.remaining()).toBe(700);
+    expect(budget.expired()).toBe(false);
+
+    advance(700);
+    expect(budget.remaining()).toBe(0);
+    expect(budget.expired()).toBe(true);
+    expect(budget.signal.reason).toBeInstanceOf(TimeoutError);
+  });
+
+  it("should bound each step by the remaining budget", async () => {
+    const { clock, advance } = createManualClock();
+    const budget = deadline(1000, { clock });
+
+    advance(600);
+    const pending = budget.run(never<number>());
+    await Promise.resolve();
+    advance(400);
+
+    expect((await pending).expectErr("should error")).toBeInstanceOf(
+      TimeoutError
+    );
+  });
+
+  it("should not start work once the budget has run out", async () => {
+    const { clock, advance } = createManualClock();
+    const budget = deadline(1000, { clock });
+    let started = false;
+
+    advance(1000);
+    const result = await budget.run(async () => {
+      started = true;
+      return ok(1);
+    });
+
+    expect(started).toBe(false);
+    expect(result.expectErr("should error")).toBeInstanceOf(TimeoutError);
+  });
+
+  it("should share one budget across a genAsync workflow", async () => {
+    const budget = deadline(20);
+    const slow = (ms: number) => (signal: AbortSignal) =>
+      new Promise<Result<number, string>>((resolve) => {
+        const timer = setTimeout(() => resolve(ok(ms)), ms);
+        signal.addEventListener("abort", () => clearTimeout(timer));
+      });
+
+    const workflow = genAsync(async function* () {
+      const first = yield* await budget.run(slow(5));
+      const second = yield* await budget.run(slow(1000));
+      return ok(first + second);
+    });
+
+    try {
+      const error = (await workflow()).expectErr("should error");
+      expect(error).toBeInstanceOf(TimeoutError);
+    } finally {
+      budget.dispose();
+    }
+  });
+
+  it("should abort allAsync tasks through its signal", async () => {
+    const { clock, advance } = createManualClock();
+    const budget = deadline(1000, { clock });
+
+    const pending = allAsync([never<number>(), never<number>()], {
+      signal: budget.signal,
+    });
+    advance(1000);
+
+    const error = (await pending).expectErr("should error");
+    expect(error).toBeInstanceOf(AbortError);
+    expect((error as AbortError).cause).toBeInstanceOf(TimeoutError);
+  });
+
+  it("should clear its timer on dispose", () => {
+    const { clock, timers } = createManualClock();
+    const budget = deadline(1000, { clock });
+
+    budget.dispose();
+
+    expect(timers.size).toBe(0);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import {
+  ok,
+  err,
+  validateAll,
+  type NonEmptyArray,
+  type Result,
+} from "../index";
+
+const validateName = (name: string): Result<string, "name-empty"> =>
+  name.length > 0 ? ok(name) : err("name-empty");
+
+const validateAge = (age: number): Result<number, "age-negative"> =>
+  age >= 0 ? ok(age) : err("age-negative");
+
+const validateEmail = (email: string): Result<string, "email-invalid"> =>
+  email.includes("@") ? ok(email) : err("email-invalid");
+
+describe("validateAll", () => {
+  describe("with arrays", () => {
+    it("should combine values when every check passes", () => {
+      const result: Result<
+        [string, number],
+        NonEmptyArray<"name-empty" | "age-negative">
+      > = validateAll([validateName("Ada"), validateAge(36)]);
+
+      expect(result.unwrap()).toEqual(["Ada", 36]);
+    });
+
+    it("should collect every error in order", () => {
+      const result = validateAll([
+        validateName(""),
+        validateAge(1),
+        validateEmail("ada"),
+      ]);
+
+      expect(result.expectErr("should error")).toEqual([
+        "name-empty",
+        "email-invalid",
+      ]);
+    });
+
+    it("should accept arrays of the same Result type", () => {
+      const checks = ["a@b", "nope", "c@d"].map(validateEmail);
+      const result: Result<
+        string[],
+        NonEmptyArray<"email-invalid">
+      > = validateAll(checks);
+
+      expect(result.expectErr("should error")).toEqual(["email-invalid"]);
+      expect(validateAll([]).unwrap()).toEqual([]);
+    });
+  });
+
+  describe("with records", () => {
+    it("should combine values when every check passes", () => {
+      const result = validateAll({
+        name: validateName("Ada"),
+        age: validateAge(36),
+      });
+      const value: { name: string; age: number } = result.unwrap();
+
+      expect(value).toEqual({ name: "Ada", age: 36 });
+    });
+
+    it("should key every error by field", () => {
+      const result = validateAll({
+        name: validateName(""),
+        age: validateAge(-1),
+        email: validateEmail("ada@example.com"),
+      });
+      const errors: {
+        name?: "name-empty";
+        age?: "age-negative";
+        email?: "email-invalid";
+      } = result.expectErr("should error");
+
+      expect(errors).toEqual({ name: "name-empty", age: "age-negative" });
+    });
+  });
+
+  it("should compose with Result combinators", () => {
+    const message = validateAll({
+      name: validateName(""),
+      age: validateAge(-1),
+    })
+      .map(({ name, age }) => `${name} (${age})`)
+      .mapErr((errors) => Object.keys(errors).join(", "))
+      .match({ ok: (value) => value, err: (fields) => `invalid: ${fields}` });
+
+    expect(message).toBe("invalid: name, age");
+  });
+});
@@ -0,0 +1,352 @@
+import { ContextError, findTagHandler, tagOf } from "./errors";
+import type { Option } from "./option";
+import {
+  deriveErr,
+  Ok,
+  Err,
+  type AnyResult,
+  type ErrorTag,
+  type HandlerError,
+  type HandlerValue,
+  type NoExtraTags,
+  type Result,
+} from "./result";
+
+/**
+ * Handlers accepted by {@link AsyncResult.catchTags}, which may recover asynchronously.
+ */
+export type AsyncTagHandlers<E> = {
+  [K in ErrorTag<E>]?: (
+    error: Extract<E, { readonly _tag: K }>
+  ) => AnyResult | PromiseLike<AnyResult>;
+};
+
+/**
+ * AsyncResult wraps a `Promise<Result<T, E>>` and exposes the {@link Result} API on it,
+ * so async operations can be chained without awaiting every step.
+ *
+ * It implements `Promise`, so awaiting it yields the underlying {@link Result} and
+ * it can be passed wherever a `Promise<Result<T, E>>` is expected.
+ *
+ * @example
+ * ```ts
+ * const name = await fromPromise(fetchUser(id))
+ *   .map((user) => user.name)
+ *   .mapErr((error) => new LoadError(error))
+ *   .unwrapOr("anonymous");
+ * ```
+ */
+export class AsyncResult<T, E> implements Promise<Result<T, E>> {
+  private readonly promise: Promise<Result<T, E>>;
+
+  constructor(promise: PromiseLike<Result<T, E>>) {
+    this.promise = Promise.resolve(promise);
+  }
+
+  then<TResult1 = Result<T, E>, TResult2 = never>(
+    onfulfilled?:
+      ((value: Result<T, E>) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): Promise<TResult1 | TResult2> {
+    return this.promise.then(onfulfilled, onrejected);
+  }
+
+  catch<TResult = never>(
+    onrejected?: ((reason: unknown) => TResult | PromiseLike<TResult>) | null
+  ): Promise<Result<T, E> | TResult> {
+    return this.promise.catch(onrejected);
+  }
+
+  finally(onfinally?: (() => void) | null): Promise<Result<T, E>> {
+    return this.promise.finally(onfinally);
+  }
+
+  get [Symbol.toStringTag](): string {
+    return "AsyncResult";
+  }
+
+  /**
+   * Resolves to `true` if the result is {@link Ok}.
+   */
+  async isOk(): Promise<boolean> {
+    return (await this.promise).isOk();
+  }
+
+  /**
+   * Resolves to `true` if the result is {@link Err}.
+   */
+  async isErr(): Promise<boolean> {
+    return (await this.promise).isErr();
+  }
+
+  /**
+   * Resolves to `true` if the result is {@link Ok}.
+   */
+  async ok(): Promise<boolean> {
+    return (await this.promise).ok();
+  }
+
+  /**
+   * Resolves to an {@link Option} of the {@link Ok} value, discarding the error.
+   */
+  async okOption(): Promise<Option<T>> {
+    return (await this.promise).okOption();
+  }
+
+  /**
+   * Resolves to an {@link Option} of the {@link Err} value, discarding the success value.
+   */
+  async errOption(): Promise<Option<E>> {
+    return (await this.promise).errOption();
+  }
+
+  /**
+   * Resolves to the contained {@link Ok} value.
+   *
+   * @throws {UnwrapError} (as a rejection) if the value is an {@link Err}.
+   */
+  async unwrap(): Promise<T> {
+    return (await this.promise).unwrap();
+  }
+
+  /**
+   * Resolves to the contained {@link Ok} value or a provided default.
+   */
+  async unwrapOr(defaultValue: T): Promise<T> {
+    return (await this.promise).unwrapOr(defaultValue);
+  }
+
+  /**
+   * Resolves to the contained {@link Ok} value or computes it from a closure.
+   */
+  async unwrapOrElse(fn: (error: E) => T | PromiseLike<T>): Promise<T> {
+    const result = await this.promise;
+    return result.isOk() ? result.value : fn(result.error);
+  }
+
+  /**
+   * Resolves to the contained {@link Ok} value.
+   *
+   * @param message - The message to include in the error if the result is an {@link Err}.
+   * @throws {ExpectError} (as a rejection) if the value is an {@link Err}.
+   */
+  async expect(message: string): Promise<T> {
+    return (await this.promise).expect(message);
+  }
+
+  /**
+   * Resolves to the contained {@link Err} value.
+   *
+   * @param message - The message to include in the error if the result is an {@link Ok}.
+   * @throws {Error} (as a rejection) if the value is an {@link Ok}.
+   */
+  async expectErr(message: string): Promise<E> {
+    return (await this.promise).expectErr(message);
+  }
+
+  /**
+   * Maps the contained {@link Ok} value with a sync or async function,
+   * leaving an {@link Err} value untouched.
+   */
+  map<U>(fn: (value: T) => U | PromiseLike<U>): AsyncResult<U, E> {
+    return new AsyncResult(
+      this.promise.then(async (result): Promise<Result<U, E>> =>
+        result.isOk()
+          ? new Ok(await fn(result.value))
+          : deriveErr(result.error, result)
+      )
+    );
+  }
+
+  /**
+   * Maps the contained {@link Err} value with a sync or async function,
+   * leaving an {@link Ok} value untouched.
+   */
+  mapErr<F>(fn: (error: E) => F | PromiseLike<F>): AsyncResult<T, F> {
+    return new AsyncResult(
+      this.promise.then(async (result): Promise<Result<T, F>> =>
+        result.isOk()
+          ? new Ok(result.value)
+          : deriveErr(await fn(result.error), result)
+      )
+    );
+  }
+
+  /**
+   * Chains an operation returning a {@link Result}, a `Promise<Result>` or another
+   * {@link AsyncResult} when this result is {@link Ok}.
+   */
+  flatMap<U, F>(
+    fn: (value: T) => Result<U, F> | PromiseLike<Result<U, F>>
+  ): AsyncResult<U, E | F> {
+    return new AsyncResult(
+      this.promise.then(
+        (result): Result<U, E | F> | PromiseLike<Result<U, F>> =>
+          result.isOk() ? fn(result.value) : deriveErr(result.error, result)
+      )
+    );
+  }
+
+  /**
+   * Converts an `AsyncResult<Result<U, F>, E>` into an `AsyncResult<U, E | F>`, removing one level of nesting.
+   */
+  flatten<U, F>(this: AsyncResult<Result<U, F>, E>): AsyncResult<U, E | F> {
+    return this.flatMap((inner) => inner);
+  }
+
+  /**
+   * Returns `other` if the result is {@link Ok}, otherwise returns the {@link Err} value of self.
+   */
+  and<U>(other: Result<U, E> | PromiseLike<Result<U, E>>): AsyncResult<U, E> {
+    return new AsyncResult(
+      this.promise.then((result): Result<U, E> | PromiseLike<Result<U, E>> =>
+        result.isOk() ? other : deriveErr(result.error, result)
+      )
+    );
+  }
+
+  /**
+   * Returns `other` if the result is {@link Err}, otherwise returns the {@link Ok} value of self.
+   */
+  or(other: Result<T, E> | PromiseLike<Result<T, E>>): AsyncResult<T, E> {
+    return new AsyncResult(
+      this.promise.then((result): Result<T, E> | PromiseLike<Result<T, E>> =>
+        result.isOk() ? result : other
+      )
+    );
+  }
+
+  /**
+   * Recovers from the error variant tagged `tag` with a sync or async handler,
+   * removing it from the error type.
+   */
+  catchTag<K extends ErrorTag<E>, U, F>(
+    tag: K,
+    handler: (
+      error: Extract<E, { readonly _tag: K }>
+    ) => Result<U, F> | PromiseLike<Result<U, F>>
+  ): AsyncResult<T | U, Exclude<E, { readonly _tag: K }> | F> {
+    return new AsyncResult(
+      this.promise.then(
+        (
+          result
+        ):
+          | Result<T | U, Exclude<E, { readonly _tag: K }> | F>
+          | PromiseLike<Result<U, F>> => {
+          if (result.isOk()) {
+            return new Ok(result.value);
+          }
+          if (tagOf(result.error) === tag) {
+            return handler(result.error as Extract<E, { readonly _tag: K }>);
+          }
+          return deriveErr(
+            result.error as Exclude<E, { readonly _tag: K }>,
+            result
+          );
+        }
+      )
+    );
+  }
+
+  /**
+   * Recovers from several tagged error variants at once, one sync or async handler per tag.
+   */
+  catchTags<H extends AsyncTagHandlers<E>>(
+    handlers: H & NoExtraTags<E, H>
+  ): AsyncResult<
+    T | HandlerValue<H>,
+    Exclude<E, { readonly _tag: keyof H }> | HandlerError<H>
+  > {
+    type Recovered = Result<
+      T | HandlerValue<H>,
+      Exclude<E, { readonly _tag: keyof H }> | HandlerError<H>
+    >;
+
+    return new AsyncResult(
+      this.promise.then((result): Recovered | PromiseLike<Recovered> => {
+        if (result.isOk()) {
+          return new Ok(result.value);
+        }
+
+        const handler = findTagHandler(handlers, result.error);
+
+        if (handler) {
+          return handler(result.error) as PromiseLike<Recovered>;
+        }
+        return deriveErr(
+          result.error as Exclude<E, { readonly _tag: keyof H }>,
+          result
+        );
+      })
+    );
+  }
+
+  /**
+   * Wraps an {@link Err} value in a {@link ContextError} describing what was being attempted.
+   * {@link Ok} values pass through untouched.
+   */
+  context(message: string): AsyncResult<T, ContextError<E>> {
+    return new AsyncResult(
+      this.promise.then((result) => result.context(message))
+    );
+  }
+
+  /**
+   * Lazy version of {@link AsyncResult.context}: the message is only computed for an {@link Err}.
+   */
+  withContext(fn: (error: E) => string): AsyncResult<T, ContextError<E>> {
+    return new AsyncResult(
+      this.promise.then((result) => result.withContext(fn))
+    );
+  }
+
+  /**
+   * Pattern matches on the result once it settles.
+   */
+  async match<U>(pattern: {
+    ok: (value: T) => U | PromiseLike<U>;
+    err: (error: E) => U | PromiseLike<U>;
+  }): Promise<U> {
+    const result = await this.promise;
+    return result.isOk() ? pattern.ok(result.value) : pattern.err(result.error);
+  }
+
+  /**
+   * Async iterator support for async generator functions.
+   */
+  async *[Symbol.asyncIterator](): AsyncGenerator<Err<T, E>, T, unknown> {
+    return yield* await this.promise;
+  }
+}
+
+export const AsyncResultFactory = {
+  /**
+   * Creates an {@link AsyncResult} resolving to an {@link Ok} result.
+   */
+  ok: <T, E = never>(value: T): AsyncResult<T, E> =>
+    new AsyncResult(Promise.resolve(new Ok<T, E>(value))),
+
+  /**
+   * Creates an {@link AsyncResult} resolving to an {@link Err} result.
+   */
+  err: <T = never, E = unknown>(error: E): AsyncResult<T, E> =>
+    new AsyncResult(Promise.resolve(new Err<T, E>(error))),
+
+  /**
+   * Converts a Promise to an {@link AsyncResult}, capturing rejections as {@link Err}.
+   */
+  fromPromise: <T, E = Error>(promise: PromiseLike<T>): AsyncResult<T, E> =>
+    new AsyncResult(
+      Promise.resolve(promise).then(
+        (value): Result<T, E> => new Ok(value),
+        (error): Result<T, E> => new Err(error as E)
+      )
+    ),
+
+  /**
+   * Lifts a {@link Result} or a `Promise<Result>` into an {@link AsyncResult}.
+   */
+  fromResult: <T, E>(
+    result: Result<T, E> | PromiseLike<Result<T, E>>
+  ): AsyncResult<T, E> => new AsyncResult(Promise.resolve(result)),
+};
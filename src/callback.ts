@@ -0,0 +1,142 @@
+import { AsyncResult } from "./async-result";
+import { AbortError } from "./errors";
+import { Err, Ok, type Result } from "./result";
+
+/**
+ * A Node-style callback: called with an error, or with a nullish error and a value.
+ */
+export type NodeCallback<T> = (error: unknown, value: T) => void;
+
+/**
+ * The minimal `EventEmitter` interface {@link fromEvent} listens on.
+ */
+export interface EventEmitterLike {
+  on(event: string | symbol, listener: (...args: unknown[]) => void): unknown;
+  removeListener(
+    event: string | symbol,
+    listener: (...args: unknown[]) => void
+  ): unknown;
+}
+
+/**
+ * Options for {@link fromEvent}.
+ */
+export interface FromEventOptions {
+  /**
+   * Event whose first argument becomes the {@link Err} value. Defaults to `"error"`.
+   */
+  errorEvent?: string | symbol;
+  /**
+   * Stops waiting with an {@link AbortError} when aborted.
+   */
+  signal?: AbortSignal;
+}
+
+const settleCallback = <T, E>(
+  register: (callback: NodeCallback<T>) => void
+): Promise<Result<T, E>> =>
+  new Promise((resolve) => {
+    let settled = false;
+
+    try {
+      register((error, value) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        resolve(error == null ? new Ok(value) : new Err(error as E));
+      });
+    } catch (error) {
+      if (!settled) {
+        settled = true;
+        resolve(new Err(error as E));
+      }
+    }
+  });
+
+/**
+ * Runs a callback-based operation and captures its outcome as an {@link AsyncResult}.
+ * A non-nullish first callback argument, or an error thrown while starting the
+ * operation, becomes an {@link Err}. Calls after the first are ignored.
+ *
+ * @example
+ * ```ts
+ * const config = await fromCallback<string, NodeJS.ErrnoException>((done) =>
+ *   fs.readFile("app.json", "utf8", done)
+ * ); // Result<string, NodeJS.ErrnoException>
+ * ```
+ */
+export const fromCallback = <T, E = Error>(
+  register: (callback: NodeCallback<T>) => void
+): AsyncResult<T, E> => new AsyncResult(settleCallback<T, E>(register));
+
+/**
+ * Turns a function taking a Node-style callback as its last argument into one
+ * returning an {@link AsyncResult}. The argument list and value type are inferred
+ * from the wrapped function; bind methods before wrapping them.
+ *
+ * @example
+ * ```ts
+ * const readFile = resultify(
+ *   (path: string, done: (error: Error | null, data: string) => void) =>
+ *     fs.readFile(path, "utf8", done)
+ * );
+ * const text = await readFile("app.json"); // Result<string, Error>
+ * ```
+ */
+export const resultify =
+  <Args extends unknown[], T, E = Error>(
+    fn: (...args: [...Args, NodeCallback<T>]) => void
+  ) =>
+  (...args: Args): AsyncResult<T, E> =>
+    fromCallback<T, E>((callback) => fn(...args, callback));
+
+/**
+ * Waits for `event` on an `EventEmitter` and resolves with an {@link Ok} holding
+ * the event's first argument, or an {@link Err} holding the first argument of
+ * `errorEvent`. Listeners are removed as soon as either fires or `signal` aborts.
+ *
+ * @example
+ * ```ts
+ * const finished = await fromEvent(stream, "finish", { signal });
+ * // Result<unknown, Error | AbortError>
+ * ```
+ */
+export const fromEvent = <T = unknown, E = Error>(
+  emitter: EventEmitterLike,
+  event: string | symbol,
+  options: FromEventOptions = {}
+): AsyncResult<T, E | AbortError> => {
+  const { errorEvent = "error", signal } = options;
+
+  return new AsyncResult(
+    new Promise<Result<T, E | AbortError>>((resolve) => {
+      if (signal?.aborted) {
+        resolve(new Err(new AbortError(signal.reason)));
+        return;
+      }
+
+      const cleanup = () => {
+        emitter.removeListener(event, onEvent);
+        emitter.removeListener(errorEvent, onError);
+        signal?.removeEventListener("abort", onAbort);
+      };
+      const onEvent = (...args: unknown[]) => {
+        cleanup();
+        resolve(new Ok(args[0] as T));
+      };
+      const onError = (...args: unknown[]) => {
+        cleanup();
+        resolve(new Err(args[0] as E));
+      };
+      const onAbort = () => {
+        cleanup();
+        resolve(new Err(new AbortError(signal?.reason)));
+      };
+
+      emitter.on(event, onEvent);
+      emitter.on(errorEvent, onError);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    })
+  );
+};
@@ -0,0 +1,219 @@
+import { AsyncResult } from "./async-result";
+import { systemClock, type Clock } from "./clock";
+import { CircuitOpenError } from "./errors";
+import { Err, type Result } from "./result";
+
+/**
+ * The state of a circuit breaker. `"closed"` runs every call, `"open"` rejects
+ * every call, and `"half-open"` lets a few trial calls through to probe the dependency.
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Details passed to {@link CircuitBreaker.onStateChange} listeners.
+ */
+export interface CircuitStateChange {
+  from: CircuitState;
+  to: CircuitState;
+}
+
+/**
+ * Configuration of {@link circuitBreaker}.
+ */
+export interface CircuitBreakerOptions<E> {
+  /**
+   * Number of consecutive failures that opens the circuit. Defaults to `5`.
+   */
+  failureThreshold?: number;
+  /**
+   * How long the circuit stays open before letting trial calls through. Defaults to `30_000`.
+   */
+  resetTimeoutMs?: number;
+  /**
+   * Number of trial calls allowed while half-open. The circuit closes once that
+   * many trial calls succeeded, and opens again as soon as one fails. Defaults to `1`.
+   */
+  halfOpenMaxCalls?: number;
+  /**
+   * Decides whether an error counts as a failure of the dependency. Defaults to
+   * counting every error, e.g. pass `(e) => e.status >= 500` to ignore client errors.
+   */
+  isFailure?: (error: E) => boolean;
+  /**
+   * Time source for the reset timeout. Defaults to {@link systemClock}.
+   */
+  clock?: Clock;
+}
+
+/**
+ * A function wrapped by {@link circuitBreaker}.
+ */
+export interface CircuitBreaker<Args extends unknown[], T, E> {
+  (...args: Args): AsyncResult<T, E | CircuitOpenError>;
+  /**
+   * The current state of the circuit.
+   */
+  readonly state: CircuitState;
+  /**
+   * Registers a listener called on every state change and returns a function removing it.
+   */
+  onStateChange(listener: (change: CircuitStateChange) => void): () => void;
+  /**
+   * Closes the circuit and clears the failure count.
+   */
+  reset(): void;
+}
+
+/**
+ * Wraps a function returning `Promise<Result>` so that a failing dependency
+ * stops being called for a while. After `failureThreshold` consecutive failures
+ * the circuit opens and calls fail immediately with a {@link CircuitOpenError};
+ * after `resetTimeoutMs` a few trial calls decide whether it closes again.
+ * A call that throws or rejects counts as a failure and still rejects.
+ *
+ * @example
+ * ```ts
+ * const getUser = circuitBreaker(
+ *   (id: string) => tryPromise({ try: () => api.getUser(id), catch: toHttpError }),
+ *   { failureThreshold: 3, resetTimeoutMs: 10_000, isFailure: (e) => e.status >= 500 }
+ * );
+ *
+ * const user = await getUser("42"); // Result<User, HttpError | CircuitOpenError>
+ * getUser.onStateChange(({ from, to }) => log.warn(`circuit ${from} -> ${to}`));
+ * ```
+ */
+export const circuitBreaker = <Args extends unknown[], T, E>(
+  fn: (...args: Args) => PromiseLike<Result<T, E>>,
+  options: CircuitBreakerOptions<E> = {}
+): CircuitBreaker<Args, T, E> => {
+  const {
+    failureThreshold = 5,
+    resetTimeoutMs = 30_000,
+    halfOpenMaxCalls = 1,
+    isFailure = () => true,
+    clock = systemClock,
+  } = options;
+  const listeners = new Set<(change: CircuitStateChange) => void>();
+
+  let state: CircuitState = "closed";
+  let failures = 0;
+  let openedAt = 0;
+  let trialCalls = 0;
+  let trialSuccesses = 0;
+  let generation = 0;
+
+  const transition = (to: CircuitState) => {
+    if (state === to) {
+      return;
+    }
+    const from = state;
+    state = to;
+    generation++;
+    failures = 0;
+    trialCalls = 0;
+    trialSuccesses = 0;
+    if (to === "open") {
+      openedAt = clock.now();
+    }
+    for (const listener of listeners) {
+      listener({ from, to });
+    }
+  };
+
+  const currentState = (): CircuitState => {
+    if (state === "open" && clock.now() - openedAt >= resetTimeoutMs) {
+      transition("half-open");
+    }
+    return state;
+  };
+
+  const onSuccess = () => {
+    if (state === "half-open") {
+      trialSuccesses++;
+      if (trialSuccesses >= halfOpenMaxCalls) {
+        transition("closed");
+      }
+      return;
+    }
+    failures = 0;
+  };
+
+  const onFailure = () => {
+    if (state === "half-open") {
+      transition("open");
+      return;
+    }
+    failures++;
+    if (state === "closed" && failures >= failureThreshold) {
+      transition("open");
+    }
+  };
+
+  const call = (...args: Args): AsyncResult<T, E | CircuitOpenError> => {
+    const current = currentState();
+
+    if (current === "open") {
+      return new AsyncResult(
+        Promise.resolve(
+          new Err<T, E | CircuitOpenError>(
+            new CircuitOpenError(openedAt + resetTimeoutMs - clock.now())
+          )
+        )
+      );
+    }
+    if (current === "half-open") {
+      if (trialCalls >= halfOpenMaxCalls) {
+        return new AsyncResult(
+          Promise.resolve(
+            new Err<T, E | CircuitOpenError>(new CircuitOpenError(0))
+          )
+        );
+      }
+      trialCalls++;
+    }
+
+    // Outcomes of calls started before the last state change are not counted.
+    const startedIn = generation;
+
+    return new AsyncResult(
+      Promise.resolve()
+        .then(() => fn(...args))
+        .then(
+          (result): Result<T, E | CircuitOpenError> => {
+            if (startedIn === generation) {
+              if (result.isErr() && isFailure(result.error)) {
+                onFailure();
+              } else {
+                onSuccess();
+              }
+            }
+            return result as Result<T, E | CircuitOpenError>;
+          },
+          (error: unknown) => {
+            if (startedIn === generation) {
+              onFailure();
+            }
+            throw error;
+          }
+        )
+    );
+  };
+
+  return Object.defineProperties(call, {
+    state: { get: currentState, enumerable: true },
+    onStateChange: {
+      value: (listener: (change: CircuitStateChange) => void) => {
+        listeners.add(listener);
+        return () => {
+          listeners.delete(listener);
+        };
+      },
+    },
+    reset: {
+      value: () => {
+        transition("closed");
+        failures = 0;
+      },
+    },
+  }) as CircuitBreaker<Args, T, E>;
+};
@@ -0,0 +1,63 @@
+import { AbortError } from "./errors";
+
+/**
+ * The time source used by retries and timeouts. Inject a custom clock to drive
+ * them from tests without waiting on real timers.
+ */
+export interface Clock {
+  /**
+   * Current time in milliseconds.
+   */
+  now(): number;
+  /**
+   * Schedules `callback` after `ms` milliseconds and returns a handle for {@link Clock.clearTimeout}.
+   */
+  setTimeout(callback: () => void, ms: number): unknown;
+  /**
+   * Cancels a callback scheduled with {@link Clock.setTimeout}.
+   */
+  clearTimeout(handle: unknown): void;
+}
+
+/**
+ * The {@link Clock} backed by `Date.now` and the global timers.
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) =>
+    clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+/**
+ * Resolves after `ms` milliseconds on the given clock, or rejects with an
+ * {@link AbortError} as soon as `signal` aborts.
+ */
+export const sleep = (
+  ms: number,
+  options: { clock?: Clock; signal?: AbortSignal | undefined } = {}
+): Promise<void> => {
+  const { clock = systemClock, signal } = options;
+
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortError(signal.reason));
+      return;
+    }
+
+    let done = false;
+    const onAbort = () => {
+      clock.clearTimeout(handle);
+      reject(new AbortError(signal?.reason));
+    };
+    const handle = clock.setTimeout(() => {
+      done = true;
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    if (!done) {
+      signal?.addEventListener("abort", onAbort, { once: true });
+    }
+  });
+};
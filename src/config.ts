@@ -0,0 +1,130 @@
+import type { Err } from "./result";
+
+/**
+ * Library-wide settings passed to {@link configure}. Every field is optional;
+ * fields left out keep their current value and `undefined` removes a hook.
+ */
+export interface ConfigureOptions {
+  /**
+   * Records where each {@link Err} is created in its `creationStack`, and appends
+   * it to the message of errors thrown by `unwrap` and `expect`. Defaults to `false`.
+   */
+  captureStack?: boolean;
+  /**
+   * Called with every newly created {@link Err}. Errs derived from another one,
+   * e.g. by `map` or `context`, do not call it again.
+   */
+  onErr?: ((result: Err<unknown, unknown>) => void) | undefined;
+  /**
+   * Called with the error thrown by `unwrap`, `expect` and friends right before it is thrown.
+   */
+  onUnwrapPanic?: ((error: Error) => void) | undefined;
+}
+
+/**
+ * The current settings, read by {@link Err} and the unwrap methods.
+ */
+export const settings: {
+  captureStack: boolean;
+  onErr: ((result: Err<unknown, unknown>) => void) | undefined;
+  onUnwrapPanic: ((error: Error) => void) | undefined;
+  /**
+   * Whether new Errs need any work at all: stack capture or the `onErr` hook.
+   */
+  tracking: boolean;
+} = {
+  captureStack: false,
+  onErr: undefined,
+  onUnwrapPanic: undefined,
+  tracking: false,
+};
+
+/**
+ * Configures library-wide instrumentation and returns the previous settings,
+ * which can be passed back to restore them. Everything is disabled by default,
+ * and then costs nothing beyond a flag check per {@link Err}.
+ *
+ * @example
+ * ```ts
+ * configure({
+ *   captureStack: process.env.NODE_ENV !== "production",
+ *   onErr: (result) => metrics.increment("result.err", { type: (result.error as Error).name }),
+ *   onUnwrapPanic: (error) => logger.error(error),
+ * });
+ * ```
+ */
+export const configure = (options: ConfigureOptions): ConfigureOptions => {
+  const previous: ConfigureOptions = {
+    captureStack: settings.captureStack,
+    onErr: settings.onErr,
+    onUnwrapPanic: settings.onUnwrapPanic,
+  };
+
+  if ("captureStack" in options) {
+    settings.captureStack = options.captureStack ?? false;
+  }
+  if ("onErr" in options) {
+    settings.onErr = options.onErr;
+  }
+  if ("onUnwrapPanic" in options) {
+    settings.onUnwrapPanic = options.onUnwrapPanic;
+  }
+  settings.tracking = settings.captureStack || settings.onErr !== undefined;
+
+  return previous;
+};
+
+const frameLocation = (frame: string): string | undefined =>
+  /\(?([^\s()]+):\d+:\d+\)?$/.exec(frame)?.[1];
+
+/**
+ * Directory of the library's modules, taken from this module's own stack frame.
+ */
+const libraryDir = ((): string | undefined => {
+  const location = frameLocation(new Error().stack?.split("\n")[1] ?? "");
+  return location?.slice(
+    0,
+    Math.max(location.lastIndexOf("/"), location.lastIndexOf("\\")) + 1
+  );
+})();
+
+const isLibraryFrame = (frame: string): boolean => {
+  const location = frameLocation(frame);
+
+  return (
+    libraryDir !== undefined &&
+    location !== undefined &&
+    location.startsWith(libraryDir) &&
+    /^(?:(?:fp|interop)[\\/])?[^\\/]+$/.test(location.slice(libraryDir.length))
+  );
+};
+
+/**
+ * Returns the stack frames below `constructorOpt`, without the leading `Error`
+ * line and the library's own frames, e.g. those of `err()` or `okOr()`, so that
+ * the first frame is the caller's.
+ */
+export const captureStack = (
+  constructorOpt: abstract new (...args: never[]) => unknown
+): string => {
+  const holder: { stack?: string | undefined } = {};
+
+  if (typeof Error.captureStackTrace === "function") {
+    Error.captureStackTrace(holder, constructorOpt);
+  } else {
+    holder.stack = new Error().stack;
+  }
+
+  const frames = (holder.stack ?? "").split("\n").slice(1);
+  const first = frames.findIndex((frame) => !isLibraryFrame(frame));
+
+  return (first === -1 ? frames : frames.slice(first)).join("\n");
+};
+
+/**
+ * Reports `error` to the `onUnwrapPanic` hook and throws it.
+ */
+export const panic = (error: Error): never => {
+  settings.onUnwrapPanic?.(error);
+  throw error;
+};
@@ -0,0 +1,466 @@
+/**
+ * Instance type of errors created with {@link TaggedError}.
+ */
+export type TaggedErrorInstance<Tag extends string, Props> = Error & {
+  readonly _tag: Tag;
+} & Readonly<Props>;
+
+/**
+ * Constructor returned by {@link TaggedError}. Extra fields are declared through
+ * its type parameter and passed as a props object, along with an optional `message`.
+ */
+export interface TaggedErrorConstructor<Tag extends string> {
+  new <Props extends object = Record<never, never>>(
+    ...args: Record<never, never> extends Props
+      ? [props?: Props & { message?: string }]
+      : [props: Props & { message?: string }]
+  ): TaggedErrorInstance<Tag, Props>;
+}
+
+/**
+ * Creates a base class for domain errors carrying a literal `_tag` discriminant.
+ * Tagged errors can be recovered from one variant at a time with `catchTag`/`catchTags`.
+ *
+ * @example
+ * ```ts
+ * class NotFound extends TaggedError("NotFound")<{ id: string }> {}
+ * class Conflict extends TaggedError("Conflict") {}
+ *
+ * const error = new NotFound({ id: "42", message: "User not found" });
+ * error._tag; // "NotFound"
+ * error.id; // "42"
+ * ```
+ */
+export const TaggedError = <Tag extends string>(
+  tag: Tag
+): TaggedErrorConstructor<Tag> => {
+  class Tagged extends Error {
+    readonly _tag = tag;
+
+    constructor(props?: { message?: string }) {
+      super(props?.message);
+      this.name = tag;
+
+      if (props) {
+        const { message: _message, ...fields } = props;
+        Object.assign(this, fields);
+      }
+    }
+  }
+
+  return Tagged as unknown as TaggedErrorConstructor<Tag>;
+};
+
+/**
+ * Asserts that a value cannot exist. Passing anything but `never` is a compile-time
+ * error, which makes it useful for checking that every error variant was handled.
+ *
+ * @example
+ * ```ts
+ * result
+ *   .catchTags({ NotFound: () => ok(null), Conflict: () => ok(null) })
+ *   .mapErr(absurd); // fails to compile if a tag was missed
+ * ```
+ *
+ * @throws {Error} if it is ever reached at runtime.
+ */
+export const absurd = (value: never): never => {
+  throw new Error(`Unexpected value: ${String(value)}`);
+};
+
+/**
+ * Error used when a {@link None} short-circuits a Result generator
+ * and no custom error was supplied for it.
+ */
+export class NoneError extends Error {
+  readonly _tag = "NoneError" as const;
+
+  constructor(message = "Expected a value but found None") {
+    super(message);
+    this.name = "NoneError";
+  }
+}
+
+/**
+ * Error produced when releasing a resource acquired with `bracket` fails.
+ *
+ * `cause` holds the release failure. `suppressed` holds the error the resource's
+ * user failed with, if it failed too.
+ */
+export class ReleaseError<RE = unknown> extends Error {
+  readonly _tag = "ReleaseError" as const;
+
+  constructor(
+    readonly cause: RE,
+    readonly suppressed?: unknown
+  ) {
+    super("Failed to release resource");
+    this.name = "ReleaseError";
+  }
+}
+
+const withCreationStack = (message: string, creationStack?: string) =>
+  creationStack === undefined
+    ? message
+    : `${message}\nErr created at:\n${creationStack}`;
+
+/**
+ * Error thrown by `unwrap` on an {@link Err}. The original error is kept as `cause`.
+ * When stack capture is enabled, the message ends with where the Err was created.
+ */
+export class UnwrapError<E = unknown> extends Error {
+  readonly _tag = "UnwrapError" as const;
+
+  constructor(
+    readonly cause: E,
+    creationStack?: string
+  ) {
+    super(
+      withCreationStack(
+        `Called unwrap on an Err value: ${formatValue(cause)}`,
+        creationStack
+      )
+    );
+    this.name = "UnwrapError";
+  }
+}
+
+/**
+ * Error thrown by `expect` on an {@link Err}. The original error is kept as `cause`.
+ * When stack capture is enabled, the message ends with where the Err was created.
+ */
+export class ExpectError<E = unknown> extends Error {
+  readonly _tag = "ExpectError" as const;
+
+  constructor(
+    message: string,
+    readonly cause: E,
+    creationStack?: string
+  ) {
+    super(
+      withCreationStack(`${message}: ${formatValue(cause)}`, creationStack)
+    );
+    this.name = "ExpectError";
+  }
+}
+
+/**
+ * Error thrown by `unwrap` and `expect` on a {@link None}.
+ */
+export class NoneUnwrapError extends Error {
+  readonly _tag = "NoneUnwrapError" as const;
+
+  constructor(message = "Called unwrap on a None value") {
+    super(message);
+    this.name = "NoneUnwrapError";
+  }
+}
+
+/**
+ * Wraps an error with a message describing what was being attempted when it occurred.
+ * The wrapped error is kept as `cause`, forming a chain that can be walked with
+ * {@link errorChain} and printed with {@link formatErrorChain}.
+ */
+export class ContextError<E = unknown> extends Error {
+  readonly _tag = "ContextError" as const;
+
+  constructor(
+    message: string,
+    readonly cause: E
+  ) {
+    super(message);
+    this.name = "ContextError";
+  }
+}
+
+/**
+ * Error produced when a serialized {@link Result} or {@link Option} cannot be revived.
+ * When a value or error decoder rejected the payload, its error is kept as `cause`.
+ */
+export class DecodeError extends Error {
+  readonly _tag = "DecodeError" as const;
+
+  constructor(
+    message: string,
+    readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = "DecodeError";
+  }
+}
+
+/**
+ * Error produced when an operation is cancelled through an `AbortSignal`.
+ * The signal's abort reason, if any, is kept as `cause`.
+ */
+export class AbortError extends Error {
+  readonly _tag = "AbortError" as const;
+
+  constructor(readonly cause?: unknown) {
+    super("The operation was aborted");
+    this.name = "AbortError";
+  }
+}
+
+/**
+ * Error produced when an operation does not settle within its time limit.
+ */
+export class TimeoutError extends Error {
+  readonly _tag = "TimeoutError" as const;
+
+  constructor(readonly timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms`);
+    this.name = "TimeoutError";
+  }
+}
+
+/**
+ * Error produced by a circuit breaker that rejects a call without running it,
+ * because the circuit is open or its half-open trial calls are all in flight.
+ */
+export class CircuitOpenError extends Error {
+  readonly _tag = "CircuitOpenError" as const;
+
+  constructor(readonly retryAfterMs: number) {
+    super(`Circuit is open, retry after ${retryAfterMs}ms`);
+    this.name = "CircuitOpenError";
+  }
+}
+
+/**
+ * Error produced when an operation retried with a `RetryPolicy` still failed.
+ *
+ * `errors` holds the error of every attempt, in order, and `cause` the last one.
+ * When the policy's `signal` aborts, `errors` ends with an {@link AbortError} and
+ * `attempts` counts only the attempts that were started, so an abort before the
+ * first attempt gives `attempts` 0 and a single AbortError.
+ */
+export class RetryError<E = unknown> extends Error {
+  readonly _tag = "RetryError" as const;
+  readonly cause: E | undefined;
+
+  constructor(
+    readonly attempts: number,
+    readonly errors: E[]
+  ) {
+    const last = errors[errors.length - 1];
+    super(
+      `Failed after ${attempts} attempt${attempts === 1 ? "" : "s"}` +
+        (errors.length > 0 ? `: ${formatValue(last)}` : "")
+    );
+    this.name = "RetryError";
+    this.cause = last;
+  }
+}
+
+/**
+ * Error produced by `safeFetch` when no response was received, e.g. because the
+ * connection failed or the URL is invalid. The underlying error is kept as `cause`.
+ */
+export class NetworkError extends Error {
+  readonly _tag = "NetworkError" as const;
+
+  constructor(readonly cause: unknown) {
+    super(`Network request failed: ${formatValue(cause)}`);
+    this.name = "NetworkError";
+  }
+}
+
+/**
+ * Error produced by `safeFetch` for a response with a non-2xx status. `body`
+ * holds the beginning of the response body, to help diagnose the failure.
+ */
+export class HttpError extends Error {
+  readonly _tag = "HttpError" as const;
+  readonly status: number;
+  readonly statusText: string;
+  readonly url: string;
+  readonly headers: Readonly<Record<string, string>>;
+  readonly body: string;
+
+  constructor(response: {
+    status: number;
+    statusText: string;
+    url: string;
+    headers: Readonly<Record<string, string>>;
+    body: string;
+  }) {
+    super(
+      `Request to ${response.url} failed with status ${response.status}` +
+        (response.statusText ? ` ${response.statusText}` : "")
+    );
+    this.name = "HttpError";
+    this.status = response.status;
+    this.statusText = response.statusText;
+    this.url = response.url;
+    this.headers = response.headers;
+    this.body = response.body;
+  }
+}
+
+/**
+ * Error produced by `safeFetch` when the response body cannot be decoded.
+ * The decoder's error is kept as `cause`.
+ */
+export class ParseError extends Error {
+  readonly _tag = "ParseError" as const;
+
+  constructor(readonly cause: unknown) {
+    super(`Failed to parse response body: ${formatValue(cause)}`);
+    this.name = "ParseError";
+  }
+}
+
+/**
+ * Returns the error followed by every error reachable through its `cause` property,
+ * outermost first.
+ */
+export const errorChain = (error: unknown): unknown[] => {
+  const chain: unknown[] = [];
+  let current = error;
+
+  while (!chain.includes(current)) {
+    chain.push(current);
+
+    if (typeof current !== "object" || current === null) {
+      break;
+    }
+    if (!("cause" in current) || current.cause === undefined) {
+      break;
+    }
+    current = current.cause;
+  }
+
+  return chain;
+};
+
+/**
+ * Renders an error chain on one line, outermost context first, the way Rust's anyhow does.
+ *
+ * @example
+ * ```ts
+ * formatErrorChain(error);
+ * // "failed to load config: failed to read file: ENOENT: no such file or directory"
+ * ```
+ */
+export const formatErrorChain = (error: unknown): string =>
+  errorChain(error).map(describeError).join(": ");
+
+const describeError = (error: unknown): string => {
+  if (error instanceof Error) {
+    return error.message || error.name;
+  }
+  return typeof error === "string" ? error : formatValue(error);
+};
+
+/**
+ * Formats any value for an error message without throwing. Errors are rendered as
+ * `name: message`, BigInts get an `n` suffix and circular references become `[Circular]`.
+ */
+export const formatValue = (value: unknown): string => {
+  if (value instanceof Error) {
+    return `${value.name}: ${value.message}`;
+  }
+
+  switch (typeof value) {
+    case "bigint":
+      return `${value}n`;
+    case "symbol":
+      return value.toString();
+    case "function":
+      return `[Function ${value.name || "anonymous"}]`;
+    case "undefined":
+      return "undefined";
+  }
+
+  try {
+    return JSON.stringify(value, jsonSafeReplacer()) ?? String(value);
+  } catch {
+    return String(value);
+  }
+};
+
+const jsonSafeReplacer = () => {
+  const ancestors: unknown[] = [];
+
+  return function (this: unknown, _key: string, value: unknown): unknown {
+    if (typeof value === "bigint") {
+      return `${value}n`;
+    }
+    if (value instanceof Error) {
+      return `${value.name}: ${value.message}`;
+    }
+    if (typeof value !== "object" || value === null) {
+      return value;
+    }
+
+    // `this` is the object holding `value`; drop ancestors we have left behind.
+    while (ancestors.length > 0 && ancestors[ancestors.length - 1] !== this) {
+      ancestors.pop();
+    }
+    if (ancestors.includes(value)) {
+      return "[Circular]";
+    }
+    ancestors.push(value);
+    return value;
+  };
+};
+
+/**
+ * Converts `Error` instances, which `JSON.stringify` renders as `{}`, into plain objects
+ * with their `name`, `message` and own fields. Errors held in fields, such as `cause`,
+ * `RetryError.errors` or `ReleaseError.suppressed`, and in arrays are converted too.
+ * Other values, and errors defining their own `toJSON`, are returned as-is.
+ */
+export const serializeError = (
+  error: unknown,
+  ancestors: readonly Error[] = []
+): unknown => {
+  if (Array.isArray(error)) {
+    return error.map((item: unknown) => serializeError(item, ancestors));
+  }
+  if (!(error instanceof Error) || "toJSON" in error) {
+    return error;
+  }
+  if (ancestors.includes(error)) {
+    return "[Circular]";
+  }
+
+  const path = [...ancestors, error];
+  const fields: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(error)) {
+    fields[key] = serializeError(value, path);
+  }
+
+  return {
+    ...fields,
+    name: error.name,
+    message: error.message,
+  };
+};
+
+/**
+ * Reads the `_tag` discriminant of an error, if it has one.
+ */
+export const tagOf = (error: unknown): unknown =>
+  typeof error === "object" && error !== null && "_tag" in error
+    ? error._tag
+    : undefined;
+
+/**
+ * Looks up the `catchTags` handler registered for an error's tag.
+ */
+export const findTagHandler = (
+  handlers: object,
+  error: unknown
+): ((error: unknown) => unknown) | undefined => {
+  const tag = tagOf(error);
+
+  if (
+    typeof tag !== "string" ||
+    !Object.prototype.hasOwnProperty.call(handlers, tag)
+  ) {
+    return undefined;
+  }
+  return (handlers as Record<string, (error: unknown) => unknown>)[tag];
+};
@@ -0,0 +1,294 @@
+import { AsyncResult } from "./async-result";
+import {
+  AbortError,
+  HttpError,
+  NetworkError,
+  ParseError,
+  TimeoutError,
+  type RetryError,
+} from "./errors";
+import { isRetryPolicy } from "./guards";
+import { Err, Ok, ResultFactory, type Result } from "./result";
+import { RetryPolicy, runWithPolicy, type RetryPolicyOptions } from "./retry";
+
+/**
+ * Every way a {@link safeFetch} call can fail.
+ */
+export type FetchError =
+  NetworkError | HttpError | ParseError | AbortError | TimeoutError;
+
+/**
+ * How {@link safeFetch} reads a successful response: `"json"`, `"text"`, or a
+ * function decoding the `Response`. A decoder that throws or rejects produces
+ * a {@link ParseError}.
+ */
+export type BodyDecoder<T> =
+  "json" | "text" | ((response: Response) => T | PromiseLike<T>);
+
+/**
+ * Options for {@link safeFetch}.
+ */
+export interface SafeFetchOptions<T> {
+  /**
+   * Reads the body of a successful response. Defaults to `"json"`.
+   */
+  decode?: BodyDecoder<T>;
+  /**
+   * Retries failed requests, like the `retry` option of `tryPromise`. Pass a
+   * {@link RetryPolicy} with `shouldRetry` to retry only some errors, e.g.
+   * {@link NetworkError}s and 5xx {@link HttpError}s.
+   */
+  retry?:
+    | RetryPolicy<FetchError>
+    | {
+        times: number;
+        delayMs: number;
+        backoff?: "linear" | "exponential";
+      };
+  /**
+   * Fails each attempt with a {@link TimeoutError} when it takes longer than this.
+   */
+  timeoutMs?: number;
+  /**
+   * Maximum number of characters of an error response's body kept in
+   * {@link HttpError.body}. Defaults to `1024`.
+   */
+  bodySnippetLength?: number;
+  /**
+   * The `fetch` implementation to use. Defaults to the global `fetch`; required
+   * where there is none, e.g. on Node 16, or every request fails with a {@link NetworkError}.
+   */
+  fetch?: (
+    input: string | URL | Request,
+    init?: RequestInit
+  ) => Promise<Response>;
+}
+
+const toFetchError = (error: unknown): FetchError => {
+  if (
+    error instanceof NetworkError ||
+    error instanceof HttpError ||
+    error instanceof ParseError ||
+    error instanceof AbortError ||
+    error instanceof TimeoutError
+  ) {
+    return error;
+  }
+  if (error instanceof Error && error.name === "AbortError") {
+    return new AbortError(error);
+  }
+  return new NetworkError(error);
+};
+
+/**
+ * Returns a signal that aborts as soon as one of `signals` does, and a function
+ * removing the listeners added to them.
+ */
+const anySignal = (
+  signals: readonly AbortSignal[]
+): { signal: AbortSignal; dispose: () => void } => {
+  const controller = new AbortController();
+  const removers: (() => void)[] = [];
+  const dispose = () => {
+    for (const remove of removers) {
+      remove();
+    }
+  };
+
+  const aborted = signals.find((signal) => signal.aborted);
+  if (aborted) {
+    controller.abort(aborted.reason);
+    return { signal: controller.signal, dispose };
+  }
+
+  for (const signal of signals) {
+    const onAbort = () => {
+      dispose();
+      controller.abort(signal.reason);
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+    removers.push(() => signal.removeEventListener("abort", onAbort));
+  }
+
+  return { signal: controller.signal, dispose };
+};
+
+/**
+ * Reads at most `length` characters of the body, then cancels the stream so a
+ * large error page is not downloaded only to be cut off.
+ */
+const readSnippet = async (
+  response: Response,
+  length: number
+): Promise<string> => {
+  if (!response.body) {
+    try {
+      return (await response.text()).slice(0, length);
+    } catch {
+      return "";
+    }
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+
+  try {
+    while (text.length < length) {
+      const { done, value } = await reader.read();
+      if (done) {
+        text += decoder.decode();
+        break;
+      }
+      text += decoder.decode(value, { stream: true });
+    }
+  } catch {
+    // Keep whatever was read before the body failed.
+  } finally {
+    reader.cancel().catch(() => undefined);
+  }
+
+  return text.slice(0, length);
+};
+
+const decodeBody = <T>(
+  response: Response,
+  decode: BodyDecoder<T>
+): Promise<T> => {
+  if (decode === "json") {
+    return response.json() as Promise<T>;
+  }
+  if (decode === "text") {
+    return response.text() as Promise<T>;
+  }
+  return Promise.resolve(decode(response));
+};
+
+/**
+ * Fetches a resource and decodes its body, resolving with an {@link Err} holding
+ * a distinct error variant instead of rejecting or returning an error response:
+ *
+ * - {@link NetworkError} when no response was received,
+ * - {@link HttpError} for a non-2xx status, with the status, headers and the beginning of the body,
+ * - {@link ParseError} when the body cannot be decoded,
+ * - {@link AbortError} when `init.signal` or the policy's `signal` aborts, and {@link TimeoutError} when an attempt exceeds `timeoutMs`.
+ *
+ * With a {@link RetryPolicy} the final error is a {@link RetryError} holding every
+ * attempt's error, as with `tryPromise`.
+ *
+ * @example
+ * ```ts
+ * const user = await safeFetch<User>(`/api/users/${id}`, undefined, {
+ *   timeoutMs: 5_000,
+ *   retry: { times: 2, delayMs: 200, backoff: "exponential" },
+ * });
+ *
+ * user.catchTag("HttpError", (e) => (e.status === 404 ? ok(null) : err(e)));
+ * ```
+ */
+export function safeFetch<T = unknown>(
+  input: string | URL | Request,
+  init: RequestInit | undefined,
+  options: SafeFetchOptions<T> & { retry: RetryPolicy<FetchError> }
+): AsyncResult<T, RetryError<FetchError>>;
+export function safeFetch<T = unknown>(
+  input: string | URL | Request,
+  init?: RequestInit,
+  options?: SafeFetchOptions<T>
+): AsyncResult<T, FetchError>;
+export function safeFetch<T>(
+  input: string | URL | Request,
+  init?: RequestInit,
+  options: SafeFetchOptions<T> = {}
+): AsyncResult<T, FetchError | RetryError<FetchError>> {
+  const {
+    decode = "json",
+    retry,
+    timeoutMs,
+    bodySnippetLength = 1024,
+  } = options;
+  const fetchFn =
+    options.fetch ??
+    (typeof globalThis.fetch === "function" ? globalThis.fetch : undefined);
+  const overrides: Partial<RetryPolicyOptions<FetchError>> = {};
+
+  if (timeoutMs !== undefined) {
+    overrides.timeoutMs = timeoutMs;
+  }
+
+  const signals = [
+    init?.signal,
+    isRetryPolicy(retry) ? retry.options.signal : undefined,
+  ].filter((signal): signal is AbortSignal => signal != null);
+  const combined = signals.length > 1 ? anySignal(signals) : undefined;
+  const requestSignal = combined?.signal ?? signals[0];
+
+  if (requestSignal) {
+    overrides.signal = requestSignal;
+  }
+
+  const attempt = async (signal: AbortSignal): Promise<T> => {
+    if (!fetchFn) {
+      throw new NetworkError(
+        new TypeError("fetch is not available, pass it as the `fetch` option")
+      );
+    }
+
+    const response = await fetchFn(input, { ...init, signal });
+
+    if (!response.ok) {
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, key) => {
+        headers[key] = value;
+      });
+
+      throw new HttpError({
+        status: response.status,
+        statusText: response.statusText,
+        url:
+          response.url ||
+          String(
+            typeof Request === "function" && input instanceof Request
+              ? input.url
+              : input
+          ),
+        headers,
+        body: await readSnippet(response, bodySnippetLength),
+      });
+    }
+
+    try {
+      return await decodeBody(response, decode);
+    } catch (error) {
+      throw new ParseError(error);
+    }
+  };
+
+  if (isRetryPolicy(retry)) {
+    const result = ResultFactory.tryPromise({
+      try: attempt,
+      catch: toFetchError,
+      retry: retry.with(overrides),
+    });
+
+    return combined
+      ? new AsyncResult(Promise.resolve(result).finally(combined.dispose))
+      : result;
+  }
+
+  const policy = new RetryPolicy<FetchError>({
+    times: retry?.times ?? 0,
+    delayMs: retry?.delayMs ?? 0,
+    backoff: retry?.backoff === "exponential" ? "exponential" : "constant",
+    ...overrides,
+  });
+
+  return new AsyncResult(
+    runWithPolicy(attempt, toFetchError, policy).then(
+      (outcome): Result<T, FetchError> =>
+        outcome.ok
+          ? new Ok(outcome.value)
+          : new Err(outcome.errors[outcome.errors.length - 1] as FetchError)
+    )
+  );
+}
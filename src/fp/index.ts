@@ -0,0 +1,24 @@
+/**
+ * Data-last functions over {@link Result} and {@link Option} for use with
+ * {@link pipe} and {@link flow}. They operate on the same values as the class
+ * methods, so both styles can be mixed freely.
+ *
+ * @example
+ * ```ts
+ * import { pipe, R, O } from "nothrow-ts/fp";
+ *
+ * const port = pipe(
+ *   O.fromNullable(process.env.PORT),
+ *   O.map(Number),
+ *   O.okOr("PORT is not set"),
+ *   R.unwrapOr(3000)
+ * );
+ * ```
+ *
+ * @packageDocumentation
+ */
+export { pipe, flow } from "./pipe";
+export * as R from "./result";
+export * as O from "./option";
+export type { Result, Ok, Err } from "../result";
+export type { Option, Some, None } from "../option";
@@ -0,0 +1,148 @@
+import { None, Some, type Option } from "../option";
+import type { Result } from "../result";
+
+/**
+ * Creates a {@link Some} option containing the given value.
+ */
+export const some = <T>(value: T): Option<T> => new Some(value);
+
+/**
+ * Returns the {@link None} option.
+ */
+export const none = <T = never>(): Option<T> => None.instance;
+
+/**
+ * Creates a {@link Some} option for non-nullish values, otherwise {@link None}.
+ */
+export const fromNullable = <T>(value: T | null | undefined): Option<T> =>
+  value == null ? None.instance : new Some(value);
+
+/**
+ * Creates a {@link Some} option for a number, treating `NaN`, `null` and `undefined` as {@link None}.
+ */
+export const fromNumber = (value: number | null | undefined): Option<number> =>
+  value == null || Number.isNaN(value) ? None.instance : new Some(value);
+
+/**
+ * Returns `true` if the option is {@link Some}.
+ */
+export const isSome = <T>(option: Option<T>): option is Some<T> =>
+  option.isSome();
+
+/**
+ * Returns `true` if the option is {@link None}.
+ */
+export const isNone = <T>(option: Option<T>): option is None => option.isNone();
+
+/**
+ * Maps the contained value, if any.
+ */
+export const map =
+  <T, U>(fn: (value: T) => U) =>
+  (option: Option<T>): Option<U> =>
+    option.map(fn);
+
+/**
+ * Chains an operation returning an {@link Option} when the option is {@link Some}.
+ */
+export const flatMap =
+  <T, U>(fn: (value: T) => Option<U>) =>
+  (option: Option<T>): Option<U> =>
+    option.flatMap(fn);
+
+/**
+ * Flattens an `Option<Option<T>>` into an `Option<T>`.
+ */
+export const flatten = <T>(option: Option<Option<T>>): Option<T> =>
+  option.flatten();
+
+/**
+ * Keeps the contained value only if `predicate` accepts it. A type guard narrows the value.
+ */
+export function filter<T, S extends T>(
+  predicate: (value: T) => value is S
+): (option: Option<T>) => Option<S>;
+export function filter<T>(
+  predicate: (value: T) => boolean
+): (option: Option<T>) => Option<T>;
+export function filter<T>(
+  predicate: (value: T) => boolean
+): (option: Option<T>) => Option<T> {
+  return (option) => option.filter(predicate);
+}
+
+/**
+ * Returns the option if it is {@link Some}, otherwise `other`.
+ */
+export const or =
+  <T>(other: Option<T>) =>
+  (option: Option<T>): Option<T> =>
+    option.or(other);
+
+/**
+ * Returns the option if it is {@link Some}, otherwise calls `fn` and returns its result.
+ */
+export const orElse =
+  <T>(fn: () => Option<T>) =>
+  (option: Option<T>): Option<T> =>
+    option.orElse(fn);
+
+/**
+ * Calls `fn` with the contained value, if any, and returns the option unchanged.
+ */
+export const inspect =
+  <T>(fn: (value: T) => void) =>
+  (option: Option<T>): Option<T> =>
+    option.inspect(fn);
+
+/**
+ * Pattern matches on the option.
+ */
+export const match =
+  <T, U>(pattern: { some: (value: T) => U; none: () => U }) =>
+  (option: Option<T>): U =>
+    option.match(pattern);
+
+/**
+ * Returns the contained value or the provided default.
+ */
+export const unwrapOr =
+  <U>(defaultValue: U) =>
+  <T>(option: Option<T>): T | U =>
+    option.isSome() ? option.value : defaultValue;
+
+/**
+ * Returns the contained value or computes a default.
+ */
+export const unwrapOrElse =
+  <U>(fn: () => U) =>
+  <T>(option: Option<T>): T | U =>
+    option.isSome() ? option.value : fn();
+
+/**
+ * Converts the option into a {@link Result}, using `error` for {@link None}.
+ */
+export const okOr =
+  <E>(error: E) =>
+  <T>(option: Option<T>): Result<T, E> =>
+    option.okOr(error);
+
+/**
+ * Converts the option into a {@link Result}, computing the error for {@link None} lazily.
+ */
+export const okOrElse =
+  <E>(errorFn: () => E) =>
+  <T>(option: Option<T>): Result<T, E> =>
+    option.okOrElse(errorFn);
+
+/**
+ * Returns the contained value, or `null` for {@link None}.
+ */
+export const toNullable = <T>(option: Option<T>): T | null =>
+  option.toNullable();
+
+/**
+ * Returns the contained value, or `undefined` for {@link None}.
+ */
+export const toUndefined = <T>(option: Option<T>): T | undefined =>
+  option.toUndefined();
@@ -0,0 +1,125 @@
+import type { ContextError } from "../errors";
+import type { Option } from "../option";
+import { Err, Ok, type Result } from "../result";
+
+/**
+ * Creates an {@link Ok} result containing the given value.
+ */
+export const ok = <T, E = never>(value: T): Result<T, E> => new Ok(value);
+
+/**
+ * Creates an {@link Err} result containing the given error.
+ */
+export const err = <T = never, E = unknown>(error: E): Result<T, E> =>
+  new Err(error);
+
+/**
+ * Returns `true` if the result is {@link Ok}.
+ */
+export const isOk = <T, E>(result: Result<T, E>): result is Ok<T, E> =>
+  result.isOk();
+
+/**
+ * Returns `true` if the result is {@link Err}.
+ */
+export const isErr = <T, E>(result: Result<T, E>): result is Err<T, E> =>
+  result.isErr();
+
+/**
+ * Maps the {@link Ok} value, leaving an {@link Err} untouched.
+ */
+export const map =
+  <T, U>(fn: (value: T) => U) =>
+  <E>(result: Result<T, E>): Result<U, E> =>
+    result.map(fn);
+
+/**
+ * Maps the {@link Err} value, leaving an {@link Ok} untouched.
+ */
+export const mapErr =
+  <E, F>(fn: (error: E) => F) =>
+  <T>(result: Result<T, E>): Result<T, F> =>
+    result.mapErr(fn);
+
+/**
+ * Chains an operation returning a {@link Result} when the result is {@link Ok}.
+ */
+export const flatMap =
+  <T, U, F>(fn: (value: T) => Result<U, F>) =>
+  <E>(result: Result<T, E>): Result<U, E | F> =>
+    result.flatMap(fn);
+
+/**
+ * Flattens a `Result<Result<U, F>, E>` into a `Result<U, E | F>`.
+ */
+export const flatten = <U, F, E>(
+  result: Result<Result<U, F>, E>
+): Result<U, E | F> => result.flatten();
+
+/**
+ * Returns `other` if the result is {@link Ok}, otherwise the {@link Err} of the result.
+ */
+export const and =
+  <U, E>(other: Result<U, E>) =>
+  <T>(result: Result<T, E>): Result<U, E> =>
+    result.and(other);
+
+/**
+ * Returns `other` if the result is {@link Err}, otherwise the {@link Ok} of the result.
+ */
+export const or =
+  <T, E>(other: Result<T, E>) =>
+  (result: Result<T, E>): Result<T, E> =>
+    result.or(other);
+
+/**
+ * Wraps the {@link Err} value in a {@link ContextError} with the given message.
+ */
+export const context =
+  (message: string) =>
+  <T, E>(result: Result<T, E>): Result<T, ContextError<E>> =>
+    result.context(message);
+
+/**
+ * Like {@link context}, but computes the message from the error only when the result is {@link Err}.
+ */
+export const withContext =
+  <E>(fn: (error: E) => string) =>
+  <T>(result: Result<T, E>): Result<T, ContextError<E>> =>
+    result.withContext(fn);
+
+/**
+ * Pattern matches on the result.
+ */
+export const match =
+  <T, E, U>(pattern: { ok: (value: T) => U; err: (error: E) => U }) =>
+  (result: Result<T, E>): U =>
+    result.match(pattern);
+
+/**
+ * Returns the {@link Ok} value or the provided default.
+ */
+export const unwrapOr =
+  <U>(defaultValue: U) =>
+  <T, E>(result: Result<T, E>): T | U =>
+    result.isOk() ? result.value : defaultValue;
+
+/**
+ * Returns the {@link Ok} value or computes a default from the error.
+ */
+export const unwrapOrElse =
+  <E, U>(fn: (error: E) => U) =>
+  <T>(result: Result<T, E>): T | U =>
+    result.isOk() ? result.value : fn(result.error);
+
+/**
+ * Converts the result into an {@link Option} of its {@link Ok} value.
+ */
+export const toOption = <T, E>(result: Result<T, E>): Option<T> =>
+  result.okOption();
+
+/**
+ * Converts the result into an {@link Option} of its {@link Err} value.
+ */
+export const errOption = <T, E>(result: Result<T, E>): Option<E> =>
+  result.errOption();
@@ -0,0 +1,89 @@
+import type { None, Option, Some } from "./option";
+import type { Err, Ok, Result } from "./result";
+import type { RetryPolicy } from "./retry";
+
+/**
+ * Brand carried by every {@link Result}. Registered with `Symbol.for`, so that
+ * Results from another copy of the library or another realm are recognized too.
+ */
+export const RESULT_BRAND: unique symbol = Symbol.for("nothrow-ts/Result");
+
+/**
+ * Brand carried by every {@link Option}. Registered with `Symbol.for`, so that
+ * Options from another copy of the library or another realm are recognized too.
+ */
+export const OPTION_BRAND: unique symbol = Symbol.for("nothrow-ts/Option");
+
+/**
+ * Brand carried by every {@link RetryPolicy}, so that a policy created by another
+ * copy of the library is still recognized by `tryPromise` and `safeFetch`.
+ */
+export const RETRY_POLICY_BRAND: unique symbol = Symbol.for(
+  "nothrow-ts/RetryPolicy"
+);
+
+const tagIfBranded = (value: unknown, brand: symbol): unknown =>
+  typeof value === "object" &&
+  value !== null &&
+  (value as Record<symbol, unknown>)[brand] === true
+    ? (value as { _tag?: unknown })._tag
+    : undefined;
+
+/**
+ * Returns `true` if `value` is a {@link Result}, including one created by another
+ * copy of nothrow-ts or in another realm, where `instanceof` checks fail.
+ */
+export const isResult = (value: unknown): value is Result<unknown, unknown> => {
+  const tag = tagIfBranded(value, RESULT_BRAND);
+  return tag === "Ok" || tag === "Err";
+};
+
+/**
+ * Returns `true` if `value` is an {@link Ok} result. Works across library copies and realms.
+ */
+export function isOk<T, E>(value: Result<T, E>): value is Ok<T, E>;
+export function isOk(value: unknown): value is Ok<unknown, unknown>;
+export function isOk(value: unknown): value is Ok<unknown, unknown> {
+  return tagIfBranded(value, RESULT_BRAND) === "Ok";
+}
+
+/**
+ * Returns `true` if `value` is an {@link Err} result. Works across library copies and realms.
+ */
+export function isErr<T, E>(value: Result<T, E>): value is Err<T, E>;
+export function isErr(value: unknown): value is Err<unknown, unknown>;
+export function isErr(value: unknown): value is Err<unknown, unknown> {
+  return tagIfBranded(value, RESULT_BRAND) === "Err";
+}
+
+/**
+ * Returns `true` if `value` is an {@link Option}, including one created by another
+ * copy of nothrow-ts or in another realm, where `instanceof` checks fail.
+ */
+export const isOption = (value: unknown): value is Option<unknown> => {
+  const tag = tagIfBranded(value, OPTION_BRAND);
+  return tag === "Some" || tag === "None";
+};
+
+/**
+ * Returns `true` if `value` is a {@link Some} option. Works across library copies and realms.
+ */
+export function isSome<T>(value: Option<T>): value is Some<T>;
+export function isSome(value: unknown): value is Some<unknown>;
+export function isSome(value: unknown): value is Some<unknown> {
+  return tagIfBranded(value, OPTION_BRAND) === "Some";
+}
+
+/**
+ * Returns `true` if `value` is the {@link None} option. Works across library copies and realms.
+ */
+export const isNone = (value: unknown): value is None =>
+  tagIfBranded(value, OPTION_BRAND) === "None";
+
+/**
+ * Returns `true` if `value` is a {@link RetryPolicy}. Works across library copies and realms.
+ */
+export const isRetryPolicy = (value: unknown): value is RetryPolicy<never> =>
+  typeof value === "object" &&
+  value !== null &&
+  (value as Record<symbol, unknown>)[RETRY_POLICY_BRAND] === true;
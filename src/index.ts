@@ -1,17 +1,128 @@
+import { AsyncResultFactory } from "./async-result";
 import { OptionFactory } from "./option";
 import { ResultFactory } from "./result";
 
-export { type Option, Some, None, OptionFactory } from "./option";
-export { type Result, Ok, Err, ResultFactory } from "./result";
+export {
+  AsyncResult,
+  AsyncResultFactory,
+  type AsyncTagHandlers,
+} from "./async-result";
+export {
+  type NodeCallback,
+  type EventEmitterLike,
+  type FromEventOptions,
+  fromCallback,
+  resultify,
+  fromEvent,
+} from "./callback";
+export {
+  circuitBreaker,
+  type CircuitBreaker,
+  type CircuitBreakerOptions,
+  type CircuitState,
+  type CircuitStateChange,
+} from "./circuit-breaker";
+export { type Clock, systemClock, sleep } from "./clock";
+export { type ConfigureOptions, configure } from "./config";
+export {
+  TaggedError,
+  type TaggedErrorConstructor,
+  type TaggedErrorInstance,
+  NoneError,
+  ReleaseError,
+  AbortError,
+  TimeoutError,
+  RetryError,
+  CircuitOpenError,
+  NetworkError,
+  HttpError,
+  ParseError,
+  ContextError,
+  UnwrapError,
+  ExpectError,
+  NoneUnwrapError,
+  DecodeError,
+  absurd,
+  errorChain,
+  formatErrorChain,
+} from "./errors";
+export {
+  type FetchError,
+  type BodyDecoder,
+  type SafeFetchOptions,
+  safeFetch,
+} from "./fetch";
+export { isResult, isOk, isErr, isOption, isSome, isNone } from "./guards";
+export {
+  type ResultJSON,
+  type OptionJSON,
+  type Decoder,
+  type ResultDecoders,
+  isResultJSON,
+  isOptionJSON,
+  jsonReviver,
+} from "./json";
+export {
+  type Pattern,
+  type Matched,
+  ResultMatcher,
+  OptionMatcher,
+  matchResult,
+  matchOption,
+} from "./match";
+export {
+  type Option,
+  type OptionValues,
+  Some,
+  None,
+  OptionFactory,
+} from "./option";
+export { RetryPolicy, type RetryPolicyOptions, type RetryEvent } from "./retry";
+export {
+  withTimeout,
+  deadline,
+  type Deadline,
+  type TimedWork,
+  type WithTimeoutOptions,
+} from "./timeout";
+export {
+  type Result,
+  type ErrorTag,
+  type TagHandlers,
+  type GenOptions,
+  type TryPromiseConfig,
+  type TryPromisePolicyConfig,
+  type NonEmptyArray,
+  type Validation,
+  type ValidatedValues,
+  type ValidationErrors,
+  type Partitioned,
+  type AnyErrors,
+  type AnyAsyncOptions,
+  type ResultProducer,
+  type AllAsyncOptions,
+  type SettledResults,
+  Ok,
+  Err,
+  ResultFactory,
+} from "./result";
 
-export const { some, none, fromNullable } = OptionFactory;
+export const { some, none, fromNullable, gen: genOption } = OptionFactory;
 export const {
   ok,
   err,
   fromThrowable,
   fromPromise,
   gen,
+  genAsync,
   tryPromise,
   all,
   partition,
+  allAsync,
+  any,
+  anyAsync,
+  validateAll,
+  bracket,
+  bracketAsync,
 } = ResultFactory;
+export const { ok: okAsync, err: errAsync } = AsyncResultFactory;
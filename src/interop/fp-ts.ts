@@ -0,0 +1,41 @@
+import { None, Some, type Option } from "../option";
+import { Err, Ok, type Result } from "../result";
+
+/**
+ * The shape of an fp-ts `Either`: a `Left` holding an error or a `Right` holding a value.
+ */
+export type EitherLike<E, A> =
+  | { readonly _tag: "Left"; readonly left: E }
+  | { readonly _tag: "Right"; readonly right: A };
+
+/**
+ * The shape of an fp-ts `Option`.
+ */
+export type FpTsOptionLike<A> =
+  { readonly _tag: "None" } | { readonly _tag: "Some"; readonly value: A };
+
+/**
+ * Converts an fp-ts `Either` into a {@link Result}, mapping `Right` to {@link Ok} and `Left` to {@link Err}.
+ */
+export const fromEither = <E, A>(either: EitherLike<E, A>): Result<A, E> =>
+  either._tag === "Right" ? new Ok(either.right) : new Err(either.left);
+
+/**
+ * Converts a {@link Result} into an fp-ts `Either`, mapping {@link Ok} to `Right` and {@link Err} to `Left`.
+ */
+export const toEither = <T, E>(result: Result<T, E>): EitherLike<E, T> =>
+  result.isOk()
+    ? { _tag: "Right", right: result.value }
+    : { _tag: "Left", left: result.error };
+
+/**
+ * Converts an fp-ts `Option` into an {@link Option}.
+ */
+export const fromFpTsOption = <A>(option: FpTsOptionLike<A>): Option<A> =>
+  option._tag === "Some" ? new Some(option.value) : None.instance;
+
+/**
+ * Converts an {@link Option} into an fp-ts `Option`.
+ */
+export const toFpTsOption = <A>(option: Option<A>): FpTsOptionLike<A> =>
+  option.isSome() ? { _tag: "Some", value: option.value } : { _tag: "None" };
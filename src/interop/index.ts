@@ -0,0 +1,30 @@
+/**
+ * Structural converters between nothrow-ts values and those of other libraries:
+ * neverthrow `Result`, fp-ts `Either` and `Option`, and plain discriminated
+ * unions. None of those libraries is needed at runtime.
+ *
+ * @example
+ * ```ts
+ * import { fromEither, toNeverthrow } from "nothrow-ts/interop";
+ * import { ok, err } from "neverthrow";
+ *
+ * const result = fromEither(E.right(1)); // Ok(1)
+ * toNeverthrow(result, { ok, err }); // neverthrow Ok(1)
+ * ```
+ *
+ * @packageDocumentation
+ */
+export {
+  type NeverthrowResultLike,
+  fromNeverthrow,
+  toNeverthrow,
+} from "./neverthrow";
+export {
+  type EitherLike,
+  type FpTsOptionLike,
+  fromEither,
+  toEither,
+  fromFpTsOption,
+  toFpTsOption,
+} from "./fp-ts";
+export { type PlainResult, fromPlain, toPlain } from "./plain";
@@ -0,0 +1,45 @@
+import { Err, Ok, type Result } from "../result";
+
+/**
+ * The shape of a neverthrow `Result`: an `Ok` exposing `value` or an `Err`
+ * exposing `error`, both with an `isOk()` method.
+ */
+export type NeverthrowResultLike<T, E> =
+  | { isOk(): boolean; readonly value: T }
+  | { isOk(): boolean; readonly error: E };
+
+/**
+ * Converts a neverthrow `Result` into a {@link Result}.
+ *
+ * @example
+ * ```ts
+ * import { ok } from "neverthrow";
+ *
+ * fromNeverthrow(ok(1)); // Ok(1)
+ * ```
+ */
+export const fromNeverthrow = <T, E>(
+  result: NeverthrowResultLike<T, E>
+): Result<T, E> =>
+  result.isOk()
+    ? new Ok((result as { readonly value: T }).value)
+    : new Err((result as { readonly error: E }).error);
+
+/**
+ * Converts a {@link Result} into a neverthrow `Result`, built with the `ok` and
+ * `err` functions of the neverthrow copy in use.
+ *
+ * @example
+ * ```ts
+ * import { ok, err } from "neverthrow";
+ *
+ * toNeverthrow(result, { ok, err }); // neverthrow Result<T, E>
+ * ```
+ */
+export const toNeverthrow = <T, E, OkR, ErrR>(
+  result: Result<T, E>,
+  constructors: { ok: (value: T) => OkR; err: (error: E) => ErrR }
+): OkR | ErrR =>
+  result.isOk()
+    ? constructors.ok(result.value)
+    : constructors.err(result.error);
@@ -0,0 +1,23 @@
+import { Err, Ok, type Result } from "../result";
+
+/**
+ * A plain discriminated union describing a Result, e.g. as returned by APIs
+ * or produced by hand.
+ */
+export type PlainResult<T, E> =
+  | { readonly ok: true; readonly value: T }
+  | { readonly ok: false; readonly error: E };
+
+/**
+ * Converts a `{ ok: true, value } | { ok: false, error }` union into a {@link Result}.
+ */
+export const fromPlain = <T, E>(plain: PlainResult<T, E>): Result<T, E> =>
+  plain.ok ? new Ok(plain.value) : new Err(plain.error);
+
+/**
+ * Converts a {@link Result} into a `{ ok: true, value } | { ok: false, error }` union.
+ */
+export const toPlain = <T, E>(result: Result<T, E>): PlainResult<T, E> =>
+  result.isOk()
+    ? { ok: true, value: result.value }
+    : { ok: false, error: result.error };
@@ -0,0 +1,136 @@
+import { DecodeError } from "./errors";
+import { None, Some, type Option } from "./option";
+import { Ok, Err, type Result } from "./result";
+
+/**
+ * JSON wire format of a {@link Result}.
+ */
+export type ResultJSON<T, E> =
+  { _tag: "Ok"; value: T } | { _tag: "Err"; error: E };
+
+/**
+ * JSON wire format of an {@link Option}.
+ */
+export type OptionJSON<T> = { _tag: "Some"; value: T } | { _tag: "None" };
+
+/**
+ * Validates a raw JSON value, returning {@link Err} when it does not have the expected shape.
+ */
+export type Decoder<T> = (raw: unknown) => Result<T, unknown>;
+
+/**
+ * Decoders for the contents of a serialized {@link Result}.
+ */
+export interface ResultDecoders<T, E> {
+  value?: Decoder<T>;
+  error?: Decoder<E>;
+}
+
+const hasShape = (
+  json: unknown,
+  tag: string,
+  keys: string[]
+): json is Record<string, unknown> =>
+  typeof json === "object" &&
+  json !== null &&
+  !Array.isArray(json) &&
+  (json as { _tag?: unknown })._tag === tag &&
+  Object.keys(json).every((key) => key === "_tag" || keys.includes(key));
+
+/**
+ * Returns `true` if the value has the JSON wire format of a {@link Result}.
+ */
+export const isResultJSON = (
+  json: unknown
+): json is ResultJSON<unknown, unknown> =>
+  hasShape(json, "Ok", ["value"]) || hasShape(json, "Err", ["error"]);
+
+/**
+ * Returns `true` if the value has the JSON wire format of an {@link Option}.
+ */
+export const isOptionJSON = (json: unknown): json is OptionJSON<unknown> =>
+  hasShape(json, "Some", ["value"]) || hasShape(json, "None", []);
+
+const parseInput = (json: unknown): Result<unknown, DecodeError> => {
+  if (typeof json !== "string") {
+    return new Ok(json);
+  }
+
+  try {
+    return new Ok(JSON.parse(json));
+  } catch (error) {
+    return new Err(new DecodeError("Invalid JSON", error));
+  }
+};
+
+const decodeWith = <T>(
+  raw: unknown,
+  decode: Decoder<T> | undefined,
+  message: string
+): Result<T, DecodeError> => {
+  if (!decode) {
+    return new Ok(raw as T);
+  }
+  return decode(raw).mapErr((error) => new DecodeError(message, error));
+};
+
+/**
+ * Revives a serialized {@link Result}. Backs {@link ResultFactory.fromJSON}.
+ */
+export const decodeResult = <T, E>(
+  json: unknown,
+  decoders: ResultDecoders<T, E> = {}
+): Result<Result<T, E>, DecodeError> =>
+  parseInput(json).flatMap((parsed): Result<Result<T, E>, DecodeError> => {
+    if (!isResultJSON(parsed)) {
+      return new Err(new DecodeError("Expected a serialized Result"));
+    }
+    if (parsed._tag === "Ok") {
+      return decodeWith(parsed.value, decoders.value, "Invalid Ok value").map(
+        (value): Result<T, E> => new Ok(value)
+      );
+    }
+    return decodeWith(parsed.error, decoders.error, "Invalid Err error").map(
+      (error): Result<T, E> => new Err(error)
+    );
+  });
+
+/**
+ * Revives a serialized {@link Option}. Backs {@link OptionFactory.fromJSON}.
+ */
+export const decodeOption = <T>(
+  json: unknown,
+  decode?: Decoder<T>
+): Result<Option<T>, DecodeError> =>
+  parseInput(json).flatMap((parsed): Result<Option<T>, DecodeError> => {
+    if (!isOptionJSON(parsed)) {
+      return new Err(new DecodeError("Expected a serialized Option"));
+    }
+    if (parsed._tag === "None") {
+      return new Ok(None.instance);
+    }
+    return decodeWith(parsed.value, decode, "Invalid Some value").map(
+      (value): Option<T> => new Some(value)
+    );
+  });
+
+/**
+ * A `JSON.parse` reviver that restores serialized Results and Options as
+ * {@link Ok}, {@link Err}, {@link Some} and {@link None} instances, wherever
+ * they appear in the payload.
+ *
+ * @example
+ * ```ts
+ * const payload = JSON.parse(body, jsonReviver);
+ * payload.user.isOk(); // true
+ * ```
+ */
+export const jsonReviver = (_key: string, value: unknown): unknown => {
+  if (isResultJSON(value)) {
+    return value._tag === "Ok" ? new Ok(value.value) : new Err(value.error);
+  }
+  if (isOptionJSON(value)) {
+    return value._tag === "Some" ? new Some(value.value) : None.instance;
+  }
+  return value;
+};
@@ -0,0 +1,312 @@
+import { formatValue, tagOf } from "./errors";
+import { isOk, isSome } from "./guards";
+import type { None, Option } from "./option";
+import type { ErrorTag, Result } from "./result";
+
+/**
+ * A pattern matched against a value: a literal for primitives, or an object
+ * whose listed fields are matched recursively. Fields left out match anything.
+ */
+export type Pattern<V> = V extends object
+  ? { readonly [K in keyof V]?: Pattern<V[K]> }
+  : V;
+
+/**
+ * The type of a value matched by `pattern`: the variants of `V` that can match
+ * it, or `V` itself when the pattern refines none of them.
+ */
+export type Matched<V, P> = [Extract<V, P>] extends [never] ? V : Extract<V, P>;
+
+type Case = {
+  variant: string;
+  test: (value: unknown) => boolean;
+  handler: (value: unknown) => unknown;
+};
+
+type Branch<V> =
+  | [handler: (value: V) => unknown]
+  | [patternOrPredicate: unknown, handler: (value: V) => unknown];
+
+const matchesPattern = (value: unknown, pattern: unknown): boolean => {
+  if (typeof pattern !== "object" || pattern === null) {
+    return Object.is(value, pattern);
+  }
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  return Object.keys(pattern).every((key) =>
+    matchesPattern(
+      (value as Record<string, unknown>)[key],
+      (pattern as Record<string, unknown>)[key]
+    )
+  );
+};
+
+const toCase = (variant: string, args: Branch<never>): Case => {
+  if (args.length === 1) {
+    return {
+      variant,
+      test: () => true,
+      handler: args[0] as (value: unknown) => unknown,
+    };
+  }
+
+  const [patternOrPredicate, handler] = args;
+
+  return {
+    variant,
+    test:
+      typeof patternOrPredicate === "function"
+        ? (patternOrPredicate as (value: unknown) => boolean)
+        : (value) => matchesPattern(value, patternOrPredicate),
+    handler: handler as (value: unknown) => unknown,
+  };
+};
+
+const runCases = (
+  cases: readonly Case[],
+  variant: string,
+  value: unknown
+): { matched: boolean; output?: unknown } => {
+  for (const candidate of cases) {
+    if (candidate.variant === variant && candidate.test(value)) {
+      return { matched: true, output: candidate.handler(value) };
+    }
+  }
+  return { matched: false };
+};
+
+/**
+ * Arguments of `exhaustive`: none once every case is handled, otherwise a
+ * required argument whose type names the unhandled values, failing compilation.
+ */
+type ExhaustiveArgs<Unhandled, Done extends boolean> = Done extends true
+  ? []
+  : [unhandled: Unhandled];
+
+/**
+ * A matcher for a {@link Result}, created by {@link matchResult}. Branches are
+ * tried in the order they were added; `RT` and `RE` track the `Ok` values and
+ * `Err` variants no branch fully handles yet.
+ */
+export class ResultMatcher<T, E, R = never, RT = T, RE = E> {
+  constructor(
+    private readonly result: Result<T, E>,
+    private readonly cases: readonly Case[] = []
+  ) {}
+
+  /**
+   * Handles {@link Ok} values, all of them or only those matching a pattern or predicate.
+   */
+  ok<U>(handler: (value: RT) => U): ResultMatcher<T, E, R | U, never, RE>;
+  ok<S extends T, U>(
+    guard: (value: T) => value is S,
+    handler: (value: S) => U
+  ): ResultMatcher<T, E, R | U, Exclude<RT, S>, RE>;
+  ok<U>(
+    predicate: (value: T) => boolean,
+    handler: (value: T) => U
+  ): ResultMatcher<T, E, R | U, RT, RE>;
+  ok<const P extends Pattern<T>, U>(
+    pattern: P,
+    handler: (value: Matched<T, P>) => U
+  ): ResultMatcher<T, E, R | U, Exclude<RT, P>, RE>;
+  ok(...args: Branch<never>): ResultMatcher<T, E, unknown, unknown, RE> {
+    return new ResultMatcher(this.result, [...this.cases, toCase("Ok", args)]);
+  }
+
+  /**
+   * Handles {@link Err} values, all of them or only those matching a pattern or predicate.
+   * An object pattern on a discriminant field, e.g. `{ kind: "timeout" }`, narrows the error.
+   */
+  err<U>(handler: (error: RE) => U): ResultMatcher<T, E, R | U, RT, never>;
+  err<S extends E, U>(
+    guard: (error: E) => error is S,
+    handler: (error: S) => U
+  ): ResultMatcher<T, E, R | U, RT, Exclude<RE, S>>;
+  err<U>(
+    predicate: (error: E) => boolean,
+    handler: (error: E) => U
+  ): ResultMatcher<T, E, R | U, RT, RE>;
+  err<const P extends Pattern<E>, U>(
+    pattern: P,
+    handler: (error: Matched<E, P>) => U
+  ): ResultMatcher<T, E, R | U, RT, Exclude<RE, P>>;
+  err(...args: Branch<never>): ResultMatcher<T, E, unknown, RT, unknown> {
+    return new ResultMatcher(this.result, [...this.cases, toCase("Err", args)]);
+  }
+
+  /**
+   * Handles the error variant tagged `tag`, i.e. whose `_tag` field equals it.
+   */
+  errTag<K extends ErrorTag<RE>, U>(
+    tag: K,
+    handler: (error: Extract<E, { readonly _tag: K }>) => U
+  ): ResultMatcher<T, E, R | U, RT, Exclude<RE, { readonly _tag: K }>> {
+    return new ResultMatcher<
+      T,
+      E,
+      R | U,
+      RT,
+      Exclude<RE, { readonly _tag: K }>
+    >(this.result, [
+      ...this.cases,
+      {
+        variant: "Err",
+        test: (error) => tagOf(error) === tag,
+        handler: handler as (value: unknown) => unknown,
+      },
+    ]);
+  }
+
+  /**
+   * Runs the first matching branch, or `fallback` with the result when none matches.
+   */
+  otherwise<U>(fallback: (result: Result<T, E>) => U): R | U {
+    const { matched, output } = this.run();
+    return matched ? (output as R) : fallback(this.result);
+  }
+
+  /**
+   * Runs the first matching branch. Fails to compile unless every `Ok` value and
+   * every `Err` variant is handled; the missing argument's type lists what is not.
+   *
+   * @throws {Error} if no branch matches at runtime, which the types rule out.
+   */
+  exhaustive(
+    ...unhandled: ExhaustiveArgs<
+      { ok: RT; err: RE },
+      [RT, RE] extends [never, never] ? true : false
+    >
+  ): R;
+  exhaustive(): R {
+    const { matched, output } = this.run();
+
+    if (!matched) {
+      throw new Error(`Unhandled value: ${formatValue(this.result)}`);
+    }
+    return output as R;
+  }
+
+  private run() {
+    return isOk(this.result)
+      ? runCases(this.cases, "Ok", this.result.value)
+      : runCases(this.cases, "Err", this.result.error);
+  }
+}
+
+/**
+ * A matcher for an {@link Option}, created by {@link matchOption}. Branches are
+ * tried in the order they were added; `RT` tracks the `Some` values and `RN`
+ * whether {@link None} is still unhandled.
+ */
+export class OptionMatcher<T, R = never, RT = T, RN = None> {
+  constructor(
+    private readonly option: Option<T>,
+    private readonly cases: readonly Case[] = []
+  ) {}
+
+  /**
+   * Handles {@link Some} values, all of them or only those matching a pattern or predicate.
+   */
+  some<U>(handler: (value: RT) => U): OptionMatcher<T, R | U, never, RN>;
+  some<S extends T, U>(
+    guard: (value: T) => value is S,
+    handler: (value: S) => U
+  ): OptionMatcher<T, R | U, Exclude<RT, S>, RN>;
+  some<U>(
+    predicate: (value: T) => boolean,
+    handler: (value: T) => U
+  ): OptionMatcher<T, R | U, RT, RN>;
+  some<const P extends Pattern<T>, U>(
+    pattern: P,
+    handler: (value: Matched<T, P>) => U
+  ): OptionMatcher<T, R | U, Exclude<RT, P>, RN>;
+  some(...args: Branch<never>): OptionMatcher<T, unknown, unknown, RN> {
+    return new OptionMatcher(this.option, [
+      ...this.cases,
+      toCase("Some", args),
+    ]);
+  }
+
+  /**
+   * Handles {@link None}.
+   */
+  none<U>(handler: () => U): OptionMatcher<T, R | U, RT, never> {
+    return new OptionMatcher<T, R | U, RT, never>(this.option, [
+      ...this.cases,
+      toCase("None", [handler]),
+    ]);
+  }
+
+  /**
+   * Runs the first matching branch, or `fallback` with the option when none matches.
+   */
+  otherwise<U>(fallback: (option: Option<T>) => U): R | U {
+    const { matched, output } = this.run();
+    return matched ? (output as R) : fallback(this.option);
+  }
+
+  /**
+   * Runs the first matching branch. Fails to compile unless every `Some` value
+   * and {@link None} are handled; the missing argument's type lists what is not.
+   *
+   * @throws {Error} if no branch matches at runtime, which the types rule out.
+   */
+  exhaustive(
+    ...unhandled: ExhaustiveArgs<
+      { some: RT; none: RN },
+      [RT, RN] extends [never, never] ? true : false
+    >
+  ): R;
+  exhaustive(): R {
+    const { matched, output } = this.run();
+
+    if (!matched) {
+      throw new Error(`Unhandled value: ${formatValue(this.option)}`);
+    }
+    return output as R;
+  }
+
+  private run() {
+    return isSome(this.option)
+      ? runCases(this.cases, "Some", this.option.value)
+      : runCases(this.cases, "None", undefined);
+  }
+}
+
+/**
+ * Starts matching a {@link Result} against branches for its values and error
+ * variants: literal and nested object patterns, predicates and type guards,
+ * with `otherwise` as a fallback or `exhaustive` to have the compiler check
+ * that nothing is left unhandled.
+ *
+ * @example
+ * ```ts
+ * // Result<User, NotFound | { kind: "http"; status: number }>
+ * const message = matchResult(loadUser(id))
+ *   .ok({ role: "admin" }, (admin) => `Welcome back, ${admin.name}`)
+ *   .ok((user) => `Hello, ${user.name}`)
+ *   .errTag("NotFound", () => "No such user")
+ *   .err({ kind: "http", status: 503 }, () => "Try again later")
+ *   .err((e) => `Request failed with ${e.status}`)
+ *   .exhaustive(); // fails to compile if an error variant is unhandled
+ * ```
+ */
+export const matchResult = <T, E>(result: Result<T, E>): ResultMatcher<T, E> =>
+  new ResultMatcher(result);
+
+/**
+ * Starts matching an {@link Option} against branches for its values and {@link None}.
+ *
+ * @example
+ * ```ts
+ * const label = matchOption(findUser(id))
+ *   .some((user) => user.age < 18, () => "minor")
+ *   .some(() => "adult")
+ *   .none(() => "unknown")
+ *   .exhaustive();
+ * ```
+ */
+export const matchOption = <T>(option: Option<T>): OptionMatcher<T> =>
+  new OptionMatcher(option);
@@ -1,3 +1,7 @@
+import { panic } from "./config";
+import { type DecodeError, formatValue, NoneUnwrapError } from "./errors";
+import { isNone, isSome, OPTION_BRAND } from "./guards";
+import { decodeOption, type Decoder, type OptionJSON } from "./json";
 import { Ok, Err, type Result } from "./result";
 
 /**
@@ -19,7 +23,7 @@ interface OptionMethods<T> {
   /**
    * Returns the contained {@link Some} value.
    *
-   * @throws {Error} if the value is a {@link None}.
+   * @throws {NoneUnwrapError} if the value is a {@link None}.
    */
   unwrap(): T;
 
@@ -37,7 +41,7 @@ interface OptionMethods<T> {
    * Returns the contained {@link Some} value.
    *
    * @param message - The message to include in the error if the value is a {@link None}.
-   * @throws {Error} if the value is a {@link None}.
+   * @throws {NoneUnwrapError} if the value is a {@link None}.
    */
   expect(message: string): T;
 
@@ -51,6 +55,11 @@ interface OptionMethods<T> {
    */
   flatMap<U>(fn: (value: T) => Option<U>): Option<U>;
 
+  /**
+   * Converts an `Option<Option<U>>` into an `Option<U>`, removing one level of nesting.
+   */
+  flatten<U>(this: Option<Option<U>>): Option<U>;
+
   /**
    * Returns {@link None} if the option is {@link None}, otherwise calls `predicate` with the wrapped value and returns:
    * - {@link Some} if `predicate` returns `true`.
@@ -68,6 +77,52 @@ interface OptionMethods<T> {
    */
   or(other: Option<T>): Option<T>;
 
+  /**
+   * Returns the option if it contains a value, otherwise calls `fn` and returns its result.
+   */
+  orElse(fn: () => Option<T>): Option<T>;
+
+  /**
+   * Returns {@link Some} if exactly one of this option and `other` is {@link Some}, otherwise {@link None}.
+   */
+  xor(other: Option<T>): Option<T>;
+
+  /**
+   * Zips this option with another: returns `Some([a, b])` if both are {@link Some}, otherwise {@link None}.
+   */
+  zip<U>(other: Option<U>): Option<[T, U]>;
+
+  /**
+   * Zips this option with another using `fn`: returns `Some(fn(a, b))` if both are {@link Some},
+   * otherwise {@link None}.
+   */
+  zipWith<U, R>(other: Option<U>, fn: (value: T, other: U) => R): Option<R>;
+
+  /**
+   * Returns the provided default if the option is {@link None}, otherwise applies `fn` to the contained value.
+   */
+  mapOr<U>(defaultValue: U, fn: (value: T) => U): U;
+
+  /**
+   * Computes a default if the option is {@link None}, otherwise applies `fn` to the contained value.
+   */
+  mapOrElse<U>(defaultFn: () => U, fn: (value: T) => U): U;
+
+  /**
+   * Calls `fn` with the contained value, if any, and returns the option unchanged.
+   */
+  inspect(fn: (value: T) => void): Option<T>;
+
+  /**
+   * Returns the contained value, or `null` for {@link None}.
+   */
+  toNullable(): T | null;
+
+  /**
+   * Returns the contained value, or `undefined` for {@link None}.
+   */
+  toUndefined(): T | undefined;
+
   /**
    * Pattern matches on the option.
    */
@@ -83,6 +138,18 @@ interface OptionMethods<T> {
    */
   okOrElse<E>(errorFn: () => E): Result<T, E>;
 
+  /**
+   * Converts an `Option<Result<U, E>>` into a `Result<Option<U>, E>`:
+   * `None` becomes `Ok(None)`, `Some(Ok(v))` becomes `Ok(Some(v))` and `Some(Err(e))` becomes `Err(e)`.
+   */
+  transpose<U, E>(this: Option<Result<U, E>>): Result<Option<U>, E>;
+
+  /**
+   * Returns the JSON wire format of the option: `{ _tag: "Some", value }` or `{ _tag: "None" }`.
+   * Revive it with {@link OptionFactory.fromJSON} or {@link jsonReviver}.
+   */
+  toJSON(): OptionJSON<T>;
+
   /**
    * Iterator support for generator functions.
    */
@@ -95,6 +162,10 @@ interface OptionMethods<T> {
 export class Some<T> implements OptionMethods<T> {
   readonly _tag = "Some" as const;
 
+  get [OPTION_BRAND](): true {
+    return true;
+  }
+
   constructor(readonly value: T) {}
 
   isSome(): this is Some<T> {
@@ -129,6 +200,10 @@ export class Some<T> implements OptionMethods<T> {
     return fn(this.value);
   }
 
+  flatten<U>(this: Option<Option<U>>): Option<U> {
+    return (this as Some<Option<U>>).value;
+  }
+
   filter(predicate: (value: T) => boolean): Option<T> {
     return predicate(this.value) ? this : None.instance;
   }
@@ -141,6 +216,43 @@ export class Some<T> implements OptionMethods<T> {
     return this;
   }
 
+  orElse(_fn: () => Option<T>): Option<T> {
+    return this;
+  }
+
+  xor(other: Option<T>): Option<T> {
+    return other.isSome() ? None.instance : this;
+  }
+
+  zip<U>(other: Option<U>): Option<[T, U]> {
+    return other.map((value): [T, U] => [this.value, value]);
+  }
+
+  zipWith<U, R>(other: Option<U>, fn: (value: T, other: U) => R): Option<R> {
+    return other.map((value) => fn(this.value, value));
+  }
+
+  mapOr<U>(_defaultValue: U, fn: (value: T) => U): U {
+    return fn(this.value);
+  }
+
+  mapOrElse<U>(_defaultFn: () => U, fn: (value: T) => U): U {
+    return fn(this.value);
+  }
+
+  inspect(fn: (value: T) => void): Option<T> {
+    fn(this.value);
+    return this;
+  }
+
+  toNullable(): T | null {
+    return this.value;
+  }
+
+  toUndefined(): T | undefined {
+    return this.value;
+  }
+
   match<U>(pattern: { some: (value: T) => U; none: () => U }): U {
     return pattern.some(this.value);
   }
@@ -153,6 +265,16 @@ export class Some<T> implements OptionMethods<T> {
     return new Ok(this.value);
   }
 
+  transpose<U, E>(this: Option<Result<U, E>>): Result<Option<U>, E> {
+    return (this as Some<Result<U, E>>).value.map(
+      (value): Option<U> => new Some(value)
+    );
+  }
+
+  toJSON(): OptionJSON<T> {
+    return { _tag: "Some", value: this.value };
+  }
+
   *[Symbol.iterator](): Generator<None, T, unknown> {
     return this.value;
   }
@@ -162,7 +284,18 @@ export class Some<T> implements OptionMethods<T> {
  * Represents no value.
  */
 export class None implements OptionMethods<never> {
-  readonly tag = "None" as const;
+  readonly _tag = "None" as const;
+
+  get [OPTION_BRAND](): true {
+    return true;
+  }
+
+  /**
+   * @deprecated Use `_tag`, the discriminant shared with {@link Some}, {@link Ok} and {@link Err}.
+   */
+  get tag(): "None" {
+    return this._tag;
+  }
 
   private static _instance: None;
 
@@ -184,7 +317,7 @@ export class None implements OptionMethods<never> {
   }
 
   unwrap(): never {
-    throw new Error("Called unwrap on a None value");
+    return panic(new NoneUnwrapError());
   }
 
   unwrapOr<T>(defaultValue: T): T {
@@ -196,7 +329,7 @@ export class None implements OptionMethods<never> {
   }
 
   expect(message: string): never {
-    throw new Error(message);
+    return panic(new NoneUnwrapError(message));
   }
 
   map<U>(_fn: (value: never) => U): Option<U> {
@@ -207,6 +340,10 @@ export class None implements OptionMethods<never> {
     return None.instance;
   }
 
+  flatten<U>(this: Option<Option<U>>): Option<U> {
+    return None.instance;
+  }
+
   filter(_predicate: (value: never) => boolean): Option<never> {
     return None.instance;
   }
@@ -219,6 +356,45 @@ export class None implements OptionMethods<never> {
     return other;
   }
 
+  orElse<T>(fn: () => Option<T>): Option<T> {
+    return fn();
+  }
+
+  xor<T>(other: Option<T>): Option<T> {
+    return other;
+  }
+
+  zip<U>(_other: Option<U>): Option<[never, U]> {
+    return None.instance;
+  }
+
+  zipWith<U, R>(
+    _other: Option<U>,
+    _fn: (value: never, other: U) => R
+  ): Option<R> {
+    return None.instance;
+  }
+
+  mapOr<U>(defaultValue: U, _fn: (value: never) => U): U {
+    return defaultValue;
+  }
+
+  mapOrElse<U>(defaultFn: () => U, _fn: (value: never) => U): U {
+    return defaultFn();
+  }
+
+  inspect(_fn: (value: never) => void): Option<never> {
+    return this;
+  }
+
+  toNullable(): null {
+    return null;
+  }
+
+  toUndefined(): undefined {
+    return undefined;
+  }
+
   match<U>(pattern: { some: (value: never) => U; none: () => U }): U {
     return pattern.none();
   }
@@ -231,11 +407,56 @@ export class None implements OptionMethods<never> {
     return new Err(errorFn());
   }
 
+  transpose<U, E>(this: Option<Result<U, E>>): Result<Option<U>, E> {
+    return new Ok(None.instance);
+  }
+
+  toJSON(): OptionJSON<never> {
+    return { _tag: "None" };
+  }
+
   *[Symbol.iterator](): Generator<None, never, unknown> {
     return (yield this) as never;
   }
 }
 
+type SomeValue<O> = O extends Some<unknown> ? O["value"] : never;
+
+/**
+ * The combined values of the options passed to {@link OptionFactory.all}.
+ */
+export type OptionValues<O> = { -readonly [K in keyof O]: SomeValue<O[K]> };
+
+/**
+ * Creates a {@link Some} option if `predicate` accepts the value, otherwise returns {@link None}.
+ * A type guard narrows the type of the contained value.
+ */
+function fromPredicate<T, S extends T>(
+  value: T,
+  predicate: (value: T) => value is S
+): Option<S>;
+function fromPredicate<T>(
+  value: T,
+  predicate: (value: T) => boolean
+): Option<T>;
+function fromPredicate<T>(
+  value: T,
+  predicate: (value: T) => boolean
+): Option<T> {
+  return predicate(value) ? new Some(value) : None.instance;
+}
+
+/**
+ * Returns `value` if it is a {@link None}, and throws a `TypeError` for anything
+ * that is neither a Some nor a None, such as `undefined` or a plain object.
+ */
+const expectNone = (value: unknown): None => {
+  if (!isNone(value)) {
+    throw new TypeError(`Expected an Option, got ${formatValue(value)}`);
+  }
+  return value;
+};
+
 export const OptionFactory = {
   /**
    * Creates a {@link Some} option.
@@ -252,4 +473,156 @@ export const OptionFactory = {
    */
   fromNullable: <T>(value: T | null | undefined): Option<T> =>
     value != null ? new Some(value) : (None.instance as Option<T>),
+
+  fromPredicate,
+
+  /**
+   * Returns the element at `index` as a {@link Some}, or {@link None} when the index is out of bounds.
+   */
+  fromIndex: <T>(array: readonly T[], index: number): Option<T> =>
+    Number.isInteger(index) && index >= 0 && index < array.length
+      ? new Some(array[index] as T)
+      : None.instance,
+
+  /**
+   * Returns the value stored under `key` as a {@link Some}, or {@link None} when the map has no such key.
+   * Unlike `fromNullable(map.get(key))`, stored `undefined` values are kept.
+   */
+  fromMapGet: <K, V>(map: ReadonlyMap<K, V>, key: K): Option<V> =>
+    map.has(key) ? new Some(map.get(key) as V) : None.instance,
+
+  /**
+   * Creates a {@link Some} option for a number, treating `NaN`, `null` and `undefined` as {@link None}.
+   */
+  fromNumber: (value: number | null | undefined): Option<number> =>
+    value == null || Number.isNaN(value) ? None.instance : new Some(value),
+
+  /**
+   * Combines options into a single option, returning {@link None} if any of them is {@link None}.
+   * Accepts an array, a tuple or a record of options and preserves its shape.
+   *
+   * @example
+   * ```ts
+   * OptionFactory.all([some(1), some("a")]); // Some([1, "a"])
+   * OptionFactory.all({ user, settings }); // Option<{ user: User; settings: Settings }>
+   * ```
+   */
+  all: <
+    const O extends
+      readonly Option<unknown>[] | Record<string, Option<unknown>>,
+  >(
+    options: O
+  ): Option<OptionValues<O>> => {
+    if (Array.isArray(options)) {
+      const values: unknown[] = [];
+
+      for (const option of options as readonly unknown[]) {
+        if (!isSome(option)) {
+          return expectNone(option);
+        }
+        values.push(option.value);
+      }
+
+      return new Some(values as OptionValues<O>);
+    }
+
+    const values: Record<string, unknown> = {};
+
+    for (const [key, option] of Object.entries(
+      options as Record<string, unknown>
+    )) {
+      if (!isSome(option)) {
+        return expectNone(option);
+      }
+      values[key] = option.value;
+    }
+
+    return new Some(values as OptionValues<O>);
+  },
+
+  /**
+   * Returns the first {@link Some} among the options (in key order for records),
+   * or {@link None} if all of them are {@link None}.
+   */
+  any: <
+    const O extends
+      readonly Option<unknown>[] | Record<string, Option<unknown>>,
+  >(
+    options: O
+  ): Option<
+    SomeValue<O extends readonly unknown[] ? O[number] : O[keyof O]>
+  > => {
+    const candidates = (
+      Array.isArray(options) ? options : Object.values(options)
+    ) as Option<unknown>[];
+
+    for (const option of candidates) {
+      if (isSome(option)) {
+        return option as Option<
+          SomeValue<O extends readonly unknown[] ? O[number] : O[keyof O]>
+        >;
+      }
+      expectNone(option);
+    }
+
+    return None.instance;
+  },
+
+  /**
+   * Converts a {@link Result} into an {@link Option} of its {@link Ok} value, discarding the error.
+   */
+  fromResult: <T, E>(result: Result<T, E>): Option<T> => result.okOption(),
+
+  /**
+   * Revives an {@link Option} from its JSON wire format, given either as a JSON string
+   * or as an already parsed value. An optional decoder validates the contained value.
+   *
+   * Returns an {@link Err} holding a {@link DecodeError} when the input is malformed
+   * or the decoder rejects it.
+   */
+  fromJSON: <T = unknown>(
+    json: unknown,
+    decode?: Decoder<T>
+  ): Result<Option<T>, DecodeError> => decodeOption(json, decode),
+
+  /**
+   * Generator function wrapper for imperative-style handling of optional values.
+   * `yield*` unwraps {@link Some} values and short-circuits to {@link None} on the first {@link None}.
+   *
+   * @example
+   * ```ts
+   * const getCity = OptionFactory.gen(function* (userId: string) {
+   *   const user = yield* fromNullable(users.get(userId));
+   *   const address = yield* fromNullable(user.address);
+   *   return some(address.city);
+   * });
+   * ```
+   */
+  gen: <T, Args extends unknown[]>(
+    generatorFn: (
+      ...args: Args
+    ) => Generator<Option<unknown>, Option<T>, unknown>
+  ) => {
+    return (...args: Args): Option<T> => {
+      const generator = generatorFn(...args);
+
+      try {
+        let next = generator.next();
+
+        while (!next.done) {
+          const option = next.value;
+
+          if (isNone(option)) {
+            return None.instance;
+          }
+          next = generator.next((option as Some<unknown>).value);
+        }
+
+        return next.value;
+      } finally {
+        // Runs the generator's `finally` blocks when it was left suspended.
+        generator.return(undefined as unknown as Option<T>);
+      }
+    };
+  },
 };
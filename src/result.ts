@@ -1,3 +1,24 @@
+import { AsyncResult, AsyncResultFactory } from "./async-result";
+import {
+  AbortError,
+  ContextError,
+  type DecodeError,
+  ExpectError,
+  NoneError,
+  ReleaseError,
+  RetryError,
+  UnwrapError,
+  findTagHandler,
+  formatValue,
+  serializeError,
+  tagOf,
+} from "./errors";
+import { captureStack, panic, settings } from "./config";
+import { isErr, isNone, isOk, isRetryPolicy, RESULT_BRAND } from "./guards";
+import { decodeResult, type ResultDecoders, type ResultJSON } from "./json";
+import { None, Some, type Option } from "./option";
+import { type RetryPolicy, runWithPolicy } from "./retry";
+
 /**
  * Result is a type that represents either a success (Ok) or a failure (Err).
  * It can be used with generator functions for automatic error propagation using "yield*".
@@ -5,6 +26,50 @@
 
 export type Result<T, E> = Ok<T, E> | Err<T, E>;
 
+/**
+ * The union of `_tag` literals found in an error type.
+ */
+export type ErrorTag<E> = E extends { readonly _tag: infer K extends string }
+  ? K
+  : never;
+
+/**
+ * Handlers accepted by `catchTags`, keyed by the tag they recover from.
+ */
+export type TagHandlers<E> = {
+  [K in ErrorTag<E>]?: (error: Extract<E, { readonly _tag: K }>) => AnyResult;
+};
+
+/**
+ * Matches any {@link Result} without fixing its type parameters, so that
+ * handler return types are inferred from the handlers themselves.
+ */
+export type AnyResult = { readonly _tag: "Ok" | "Err" };
+
+export type NoExtraTags<E, H> = {
+  [K in Exclude<keyof H, ErrorTag<E>>]: never;
+};
+
+type HandlerResult<H> = {
+  [K in keyof H]-?: H[K] extends (...args: never[]) => infer R
+    ? Awaited<R>
+    : never;
+}[keyof H];
+
+export type HandlerValue<H> =
+  HandlerResult<H> extends infer R
+    ? R extends Ok<unknown, unknown>
+      ? R["value"]
+      : never
+    : never;
+
+export type HandlerError<H> =
+  HandlerResult<H> extends infer R
+    ? R extends Err<unknown, unknown>
+      ? R["error"]
+      : never
+    : never;
+
 interface ResultMethods<T, E> {
   /**
    * Returns `true` if the result is {@link Ok}.
@@ -21,10 +86,20 @@ interface ResultMethods<T, E> {
    */
   ok(): boolean;
 
+  /**
+   * Converts the result into an {@link Option} of its {@link Ok} value, discarding the error.
+   */
+  okOption(): Option<T>;
+
+  /**
+   * Converts the result into an {@link Option} of its {@link Err} value, discarding the success value.
+   */
+  errOption(): Option<E>;
+
   /**
    * Returns the contained {@link Ok} value.
    *
-   * @throws {Error} if the value is an {@link Err}.
+   * @throws {UnwrapError} if the value is an {@link Err}, with the error as its `cause`.
    */
   unwrap(): T;
 
@@ -42,7 +117,7 @@ interface ResultMethods<T, E> {
    * Returns the contained {@link Ok} value.
    *
    * @param message - The message to include in the error if the result is an {@link Err}.
-   * @throws {Error} if the value is an {@link Err}.
+   * @throws {ExpectError} if the value is an {@link Err}, with the error as its `cause`.
    */
   expect(message: string): T;
 
@@ -85,6 +160,17 @@ interface ResultMethods<T, E> {
    */
   flatMap<U, F>(fn: (value: T) => Result<U, F>): Result<U, E | F>;
 
+  /**
+   * Converts a `Result<Result<U, F>, E>` into a `Result<U, E | F>`, removing one level of nesting.
+   */
+  flatten<U, F>(this: Result<Result<U, F>, E>): Result<U, E | F>;
+
+  /**
+   * Converts a `Result<Option<U>, E>` into an `Option<Result<U, E>>`:
+   * `Ok(None)` becomes `None`, `Ok(Some(v))` becomes `Some(Ok(v))` and `Err(e)` becomes `Some(Err(e))`.
+   */
+  transpose<U>(this: Result<Option<U>, E>): Option<Result<U, E>>;
+
   /**
    * Returns `other` if the result is {@link Ok}, otherwise returns the {@link Err} value of self.
    */
@@ -95,11 +181,61 @@ interface ResultMethods<T, E> {
    */
   or(other: Result<T, E>): Result<T, E>;
 
+  /**
+   * Recovers from the error variant tagged `tag`, removing it from the error type.
+   * Other errors and {@link Ok} values are left untouched.
+   *
+   * @example
+   * ```ts
+   * const user: Result<User, NotFound | DbError> = findUser(id);
+   * const orGuest = user.catchTag("NotFound", () => ok(guestUser));
+   * // Result<User, DbError>
+   * ```
+   */
+  catchTag<K extends ErrorTag<E>, U, F>(
+    tag: K,
+    handler: (error: Extract<E, { readonly _tag: K }>) => Result<U, F>
+  ): Result<T | U, Exclude<E, { readonly _tag: K }> | F>;
+
+  /**
+   * Recovers from several tagged error variants at once, one handler per tag.
+   * Handled tags are removed from the error type.
+   */
+  catchTags<H extends TagHandlers<E>>(
+    handlers: H & NoExtraTags<E, H>
+  ): Result<
+    T | HandlerValue<H>,
+    Exclude<E, { readonly _tag: keyof H }> | HandlerError<H>
+  >;
+
+  /**
+   * Wraps an {@link Err} value in a {@link ContextError} describing what was being attempted,
+   * keeping the original error as its `cause`. {@link Ok} values pass through untouched.
+   *
+   * @example
+   * ```ts
+   * readFile(path).context("failed to read file").context("failed to load config");
+   * ```
+   */
+  context(message: string): Result<T, ContextError<E>>;
+
+  /**
+   * Lazy version of {@link ResultMethods.context}: the message is only computed for an {@link Err}.
+   */
+  withContext(fn: (error: E) => string): Result<T, ContextError<E>>;
+
   /**
    * Pattern matches on the result.
    */
   match<U>(pattern: { ok: (value: T) => U; err: (error: E) => U }): U;
 
+  /**
+   * Returns the JSON wire format of the result: `{ _tag: "Ok", value }` or
+   * `{ _tag: "Err", error }`. `Error` instances are converted to plain objects.
+   * Revive it with {@link ResultFactory.fromJSON} or {@link jsonReviver}.
+   */
+  toJSON(): ResultJSON<T, E>;
+
   /**
    * Iterator support for generator functions.
    */
@@ -112,6 +248,10 @@ interface ResultMethods<T, E> {
 export class Ok<T, E> implements ResultMethods<T, E> {
   readonly _tag = "Ok" as const;
 
+  get [RESULT_BRAND](): true {
+    return true;
+  }
+
   constructor(readonly value: T) {}
 
   isOk(): this is Ok<T, E> {
@@ -126,6 +266,14 @@ export class Ok<T, E> implements ResultMethods<T, E> {
     return true;
   }
 
+  okOption(): Option<T> {
+    return new Some(this.value);
+  }
+
+  errOption(): Option<E> {
+    return None.instance;
+  }
+
   unwrap(): T {
     return this.value;
   }
@@ -143,7 +291,7 @@ export class Ok<T, E> implements ResultMethods<T, E> {
   }
 
   expectErr(message: string): E {
-    throw new Error(message);
+    return panic(new Error(message));
   }
 
   map<U>(fn: (value: T) => U): Result<U, E> {
@@ -158,6 +306,16 @@ export class Ok<T, E> implements ResultMethods<T, E> {
     return fn(this.value);
   }
 
+  flatten<U, F>(this: Result<Result<U, F>, E>): Result<U, E | F> {
+    return (this as Ok<Result<U, F>, E>).value;
+  }
+
+  transpose<U>(this: Result<Option<U>, E>): Option<Result<U, E>> {
+    return (this as Ok<Option<U>, E>).value.map(
+      (value): Result<U, E> => new Ok(value)
+    );
+  }
+
   and<U>(other: Result<U, E>): Result<U, E> {
     return other;
   }
@@ -166,22 +324,79 @@ export class Ok<T, E> implements ResultMethods<T, E> {
     return this;
   }
 
+  catchTag<K extends ErrorTag<E>, U, F>(
+    _tag: K,
+    _handler: (error: Extract<E, { readonly _tag: K }>) => Result<U, F>
+  ): Result<T | U, Exclude<E, { readonly _tag: K }> | F> {
+    return new Ok(this.value);
+  }
+
+  catchTags<H extends TagHandlers<E>>(
+    _handlers: H & NoExtraTags<E, H>
+  ): Result<
+    T | HandlerValue<H>,
+    Exclude<E, { readonly _tag: keyof H }> | HandlerError<H>
+  > {
+    return new Ok(this.value);
+  }
+
+  context(_message: string): Result<T, ContextError<E>> {
+    return new Ok(this.value);
+  }
+
+  withContext(_fn: (error: E) => string): Result<T, ContextError<E>> {
+    return new Ok(this.value);
+  }
+
   match<U>(pattern: { ok: (value: T) => U; err: (error: E) => U }): U {
     return pattern.ok(this.value);
   }
 
+  toJSON(): ResultJSON<T, E> {
+    return { _tag: "Ok", value: this.value };
+  }
+
   *[Symbol.iterator](): Generator<Err<T, E>, T, unknown> {
     return this.value;
   }
 }
 
+/**
+ * The Err that {@link deriveErr} is deriving from, read by the next `Err` constructor call.
+ */
+let derivingFrom: Err<unknown, unknown> | undefined;
+
 /**
  * Contains the error value.
  */
 export class Err<T, E> implements ResultMethods<T, E> {
   readonly _tag = "Err" as const;
 
-  constructor(readonly error: E) {}
+  get [RESULT_BRAND](): true {
+    return true;
+  }
+
+  /**
+   * Stack frames of the code that created this Err, recorded when stack capture
+   * is enabled with {@link configure}. Errs derived from another one keep its stack.
+   */
+  declare readonly creationStack?: string;
+
+  constructor(readonly error: E) {
+    const origin = derivingFrom;
+    derivingFrom = undefined;
+
+    if (origin) {
+      if (origin.creationStack !== undefined) {
+        this.creationStack = origin.creationStack;
+      }
+    } else if (settings.tracking) {
+      if (settings.captureStack) {
+        this.creationStack = captureStack(Err);
+      }
+      settings.onErr?.(this as Err<unknown, unknown>);
+    }
+  }
 
   isOk(): this is Ok<T, E> {
     return false;
@@ -195,10 +410,16 @@ export class Err<T, E> implements ResultMethods<T, E> {
     return false;
   }
 
+  okOption(): Option<T> {
+    return None.instance;
+  }
+
+  errOption(): Option<E> {
+    return new Some(this.error);
+  }
+
   unwrap(): T {
-    throw new Error(
-      `Called unwrap on an Err value: ${JSON.stringify(this.error)}`
-    );
+    return panic(new UnwrapError(this.error, this.creationStack));
   }
 
   unwrapOr(defaultValue: T): T {
@@ -210,7 +431,7 @@ export class Err<T, E> implements ResultMethods<T, E> {
   }
 
   expect(message: string): T {
-    throw new Error(`${message}: ${JSON.stringify(this.error)}`);
+    return panic(new ExpectError(message, this.error, this.creationStack));
   }
 
   expectErr(_message: string): E {
@@ -218,34 +439,749 @@ export class Err<T, E> implements ResultMethods<T, E> {
   }
 
   map<U>(_fn: (value: T) => U): Result<U, E> {
-    return new Err(this.error);
+    return deriveErr(this.error, this);
   }
 
   mapErr<F>(fn: (error: E) => F): Result<T, F> {
-    return new Err(fn(this.error));
+    return deriveErr(fn(this.error), this);
   }
 
   flatMap<U, F>(_fn: (value: T) => Result<U, F>): Result<U, E | F> {
-    return new Err<U, E | F>(this.error);
+    return deriveErr<U, E | F>(this.error, this);
+  }
+
+  flatten<U, F>(this: Result<Result<U, F>, E>): Result<U, E | F> {
+    const self = this as Err<Result<U, F>, E>;
+    return deriveErr(self.error, self);
+  }
+
+  transpose<U>(this: Result<Option<U>, E>): Option<Result<U, E>> {
+    const self = this as Err<Option<U>, E>;
+    return new Some(deriveErr(self.error, self));
   }
 
   and<U>(_other: Result<U, E>): Result<U, E> {
-    return new Err(this.error);
+    return deriveErr(this.error, this);
   }
 
   or(other: Result<T, E>): Result<T, E> {
     return other;
   }
 
+  catchTag<K extends ErrorTag<E>, U, F>(
+    tag: K,
+    handler: (error: Extract<E, { readonly _tag: K }>) => Result<U, F>
+  ): Result<T | U, Exclude<E, { readonly _tag: K }> | F> {
+    if (tagOf(this.error) === tag) {
+      return handler(this.error as Extract<E, { readonly _tag: K }>);
+    }
+    return deriveErr(this.error as Exclude<E, { readonly _tag: K }>, this);
+  }
+
+  catchTags<H extends TagHandlers<E>>(
+    handlers: H & NoExtraTags<E, H>
+  ): Result<
+    T | HandlerValue<H>,
+    Exclude<E, { readonly _tag: keyof H }> | HandlerError<H>
+  > {
+    const handler = findTagHandler(handlers, this.error);
+
+    if (handler) {
+      return handler(this.error) as Result<HandlerValue<H>, HandlerError<H>>;
+    }
+    return deriveErr(
+      this.error as Exclude<E, { readonly _tag: keyof H }>,
+      this
+    );
+  }
+
+  context(message: string): Result<T, ContextError<E>> {
+    return deriveErr(new ContextError(message, this.error), this);
+  }
+
+  withContext(fn: (error: E) => string): Result<T, ContextError<E>> {
+    return deriveErr(new ContextError(fn(this.error), this.error), this);
+  }
+
   match<U>(pattern: { ok: (value: T) => U; err: (error: E) => U }): U {
     return pattern.err(this.error);
   }
 
+  toJSON(): ResultJSON<T, E> {
+    return { _tag: "Err", error: serializeError(this.error) as E };
+  }
+
   *[Symbol.iterator](): Generator<Err<T, E>, T, unknown> {
     return (yield this) as T;
   }
 }
 
+/**
+ * Creates an Err derived from `origin`, e.g. by `map` or `context`. It keeps the
+ * creation stack of `origin` and does not call the `onErr` hook again.
+ */
+export const deriveErr = <T, E>(
+  error: E,
+  origin: Err<unknown, unknown>
+): Err<T, E> => {
+  derivingFrom = origin;
+  return new Err(error);
+};
+
+/**
+ * Options for {@link ResultFactory.gen} and {@link ResultFactory.genAsync}.
+ */
+export interface GenOptions<N> {
+  /**
+   * Creates the error a {@link None} converts to when it is unwrapped with `yield*`.
+   * Defaults to a {@link NoneError}.
+   */
+  noneError?: () => N;
+}
+
+/**
+ * The error type contributed by a value yielded inside a Result generator.
+ */
+type YieldedError<Y, N> =
+  Y extends Err<unknown, unknown> ? Y["error"] : Y extends None ? N : never;
+
+const noneToErr = <T, N>(options?: GenOptions<N>): Result<T, N> =>
+  new Err(options?.noneError ? options.noneError() : (new NoneError() as N));
+
+/**
+ * Returns `value` if it is an {@link Err}, and throws a `TypeError` for anything
+ * that is neither an Ok nor an Err, such as a plain `{ _tag: "Err" }` object.
+ */
+const expectErr = (value: unknown): Err<unknown, unknown> => {
+  if (!isErr(value)) {
+    throw new TypeError(`Expected a Result, got ${formatValue(value)}`);
+  }
+  return value;
+};
+
+/**
+ * Calls a bracket's `release`, rethrowing an exception it throws as a
+ * {@link ReleaseError} whose `suppressed` is the error of the body, if any.
+ */
+const releaseSync = <R, V>(
+  release: (resource: R) => V,
+  resource: R,
+  suppressed: unknown
+): V => {
+  try {
+    return release(resource);
+  } catch (error) {
+    throw new ReleaseError(error, suppressed);
+  }
+};
+
+/**
+ * Async version of {@link releaseSync}, also catching a rejected `release`.
+ */
+const releaseAsync = async <R, V>(
+  release: (resource: R) => V | PromiseLike<V>,
+  resource: R,
+  suppressed: unknown
+): Promise<V> => {
+  try {
+    return await release(resource);
+  } catch (error) {
+    throw new ReleaseError(error, suppressed);
+  }
+};
+
+/**
+ * Configuration for {@link ResultFactory.tryPromise}.
+ */
+export interface TryPromiseConfig<T, E> {
+  try: () => Promise<T>;
+  /**
+   * Maps the error of the final failed attempt.
+   */
+  catch?: (error: unknown) => E;
+  /**
+   * Retries every error with a constant (`"linear"`) or doubling
+   * (`"exponential"`) delay. Use {@link TryPromisePolicyConfig} for more control.
+   */
+  retry?: {
+    times: number;
+    delayMs: number;
+    backoff?: "linear" | "exponential";
+  };
+}
+
+/**
+ * Configuration for {@link ResultFactory.tryPromise} with a {@link RetryPolicy}.
+ */
+export interface TryPromisePolicyConfig<T, E> {
+  /**
+   * Runs one attempt. `signal` aborts when the attempt times out or the
+   * retry policy's signal aborts.
+   */
+  try: (signal: AbortSignal) => Promise<T>;
+  /**
+   * Maps the error of every failed attempt, before the policy decides whether to retry.
+   */
+  catch?: (error: unknown) => E;
+  retry: RetryPolicy<E>;
+}
+
+const isPolicyConfig = <T, E>(
+  config: TryPromiseConfig<T, E> | TryPromisePolicyConfig<T, E>
+): config is TryPromisePolicyConfig<T, E> => isRetryPolicy(config.retry);
+
+const runTryPromise = async <T, E>(
+  config: TryPromiseConfig<T, E> | TryPromisePolicyConfig<T, E>
+): Promise<Result<T, E | RetryError<E>>> => {
+  if (isPolicyConfig(config)) {
+    const { try: tryFn, catch: catchFn, retry } = config;
+    const outcome = await runWithPolicy(
+      tryFn,
+      catchFn ?? ((error: unknown) => error as E),
+      retry
+    );
+
+    return outcome.ok
+      ? new Ok(outcome.value)
+      : new Err(new RetryError(outcome.attempts, outcome.errors));
+  }
+
+  const { try: tryFn, catch: catchFn, retry } = config;
+  const maxAttempts = retry ? retry.times + 1 : 1;
+
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    try {
+      const value = await tryFn();
+      return new Ok(value);
+    } catch (error) {
+      const isLastAttempt = attempt === maxAttempts - 1;
+
+      if (isLastAttempt) {
+        const mappedError = catchFn ? catchFn(error) : (error as E);
+        return new Err(mappedError);
+      }
+
+      if (retry) {
+        const delay =
+          retry.backoff === "exponential"
+            ? retry.delayMs * Math.pow(2, attempt)
+            : retry.delayMs;
+
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  return new Err(new Error("Unexpected retry error") as E);
+};
+
+/**
+ * An array with at least one element.
+ */
+export type NonEmptyArray<T> = [T, ...T[]];
+
+/**
+ * A {@link Result} that keeps every error instead of only the first one.
+ */
+export type Validation<T, E> = Result<T, NonEmptyArray<E>>;
+
+type OkValue<R> = R extends Ok<unknown, unknown> ? R["value"] : never;
+
+type ErrValue<R> = R extends Err<unknown, unknown> ? R["error"] : never;
+
+/**
+ * The combined success value of the checks passed to {@link ResultFactory.validateAll}.
+ */
+export type ValidatedValues<R> = {
+  -readonly [K in keyof R]: OkValue<R[K]>;
+};
+
+/**
+ * The errors of the failed checks in a record passed to
+ * {@link ResultFactory.validateAll}, keyed by field.
+ */
+export type ValidationErrors<R> = {
+  -readonly [K in keyof R]?: ErrValue<R[K]>;
+};
+
+type Entry<R> = R extends readonly unknown[] ? R[number] : R[keyof R];
+
+/**
+ * The success values and errors returned by {@link ResultFactory.partition}.
+ */
+export type Partitioned<R> = R extends readonly unknown[]
+  ? { ok: OkValue<R[number]>[]; err: ErrValue<R[number]>[] }
+  : {
+      ok: { -readonly [K in keyof R]?: OkValue<R[K]> };
+      err: ValidationErrors<R>;
+    };
+
+/**
+ * The errors of every check, in order, when {@link ResultFactory.any} finds no {@link Ok}.
+ */
+export type AnyErrors<R> = { -readonly [K in keyof R]: ErrValue<R[K]> };
+
+/**
+ * A lazily started async operation, as run by {@link ResultFactory.anyAsync}
+ * and {@link ResultFactory.allAsync}. It should stop its work when `signal` aborts.
+ */
+export type ResultProducer = (signal: AbortSignal) => PromiseLike<AnyResult>;
+
+type ProducedResults<P> = {
+  -readonly [K in keyof P]: P[K] extends (...args: never[]) => infer R
+    ? Awaited<R>
+    : never;
+};
+
+/**
+ * Options for {@link ResultFactory.anyAsync}.
+ */
+export interface AnyAsyncOptions {
+  /**
+   * Aborts every producer that is still running.
+   */
+  signal?: AbortSignal;
+}
+
+const startProducer = (
+  producer: ResultProducer,
+  signal: AbortSignal
+): Promise<AnyResult> => {
+  try {
+    return Promise.resolve(producer(signal));
+  } catch (error) {
+    return Promise.reject(error);
+  }
+};
+
+const runAnyAsync = (
+  producers: readonly ResultProducer[],
+  options: AnyAsyncOptions
+): Promise<Result<unknown, unknown[]>> => {
+  const { signal } = options;
+  const controllers = producers.map(() => new AbortController());
+  const abortAll = (except?: AbortController) => {
+    for (const controller of controllers) {
+      if (controller !== except) {
+        controller.abort(signal?.reason);
+      }
+    }
+  };
+  const onAbort = () => abortAll();
+
+  if (signal?.aborted) {
+    abortAll();
+  } else {
+    signal?.addEventListener("abort", onAbort, { once: true });
+  }
+
+  return new Promise<Result<unknown, unknown[]>>((resolve, reject) => {
+    const errors: unknown[] = new Array(producers.length);
+    let pending = producers.length;
+
+    if (pending === 0) {
+      resolve(new Err(errors));
+      return;
+    }
+
+    producers.forEach((producer, index) => {
+      const controller = controllers[index] as AbortController;
+
+      startProducer(producer, controller.signal)
+        .then((outcome) => {
+          const result = outcome as Result<unknown, unknown>;
+          if (isOk(result)) {
+            resolve(result as Result<unknown, unknown[]>);
+            abortAll(controller);
+            return;
+          }
+          errors[index] = result.error;
+          pending--;
+          if (pending === 0) {
+            resolve(new Err(errors));
+          }
+        })
+        .catch((error: unknown) => {
+          reject(error);
+          abortAll();
+        });
+    });
+  }).finally(() => signal?.removeEventListener("abort", onAbort));
+};
+
+/**
+ * Options for {@link ResultFactory.allAsync}.
+ */
+export interface AllAsyncOptions {
+  /**
+   * Maximum number of tasks running at once. Defaults to no limit. Must be
+   * positive; `allAsync` throws a `RangeError` otherwise.
+   */
+  concurrency?: number;
+  /**
+   * Aborts the running tasks and stops starting new ones.
+   */
+  signal?: AbortSignal;
+  /**
+   * `"fail-fast"` (the default) stops at the first {@link Err} and aborts the
+   * remaining tasks. `"settle"` runs every task and partitions the outcomes.
+   */
+  mode?: "fail-fast" | "settle";
+}
+
+/**
+ * The outcomes of {@link ResultFactory.allAsync} in `"settle"` mode, in input order.
+ * Tasks that never started because the signal aborted fail with an {@link AbortError}.
+ */
+export interface SettledResults<R extends readonly unknown[]> {
+  ok: OkValue<R[number]>[];
+  err: (ErrValue<R[number]> | AbortError)[];
+}
+
+interface AllAsyncOutcome {
+  results: Result<unknown, unknown>[];
+  failure?: Err<unknown, unknown>;
+}
+
+const runAllAsync = (
+  tasks: readonly ResultProducer[],
+  options: AllAsyncOptions
+): Promise<AllAsyncOutcome> => {
+  const { concurrency = Infinity, signal, mode = "fail-fast" } = options;
+
+  if (!(concurrency > 0)) {
+    throw new RangeError(
+      `concurrency must be a positive number, got ${concurrency}`
+    );
+  }
+
+  const limit = Math.max(1, concurrency);
+  const running = new Map<number, AbortController>();
+  const results: Result<unknown, unknown>[] = new Array(tasks.length);
+  let next = 0;
+  let finished = false;
+
+  const abortRunning = () => {
+    for (const controller of running.values()) {
+      controller.abort(signal?.reason);
+    }
+  };
+
+  return new Promise<AllAsyncOutcome>((resolve, reject) => {
+    const finish = (failure?: Err<unknown, unknown>) => {
+      finished = true;
+      signal?.removeEventListener("abort", onAbort);
+      abortRunning();
+      resolve(failure ? { results, failure } : { results });
+    };
+
+    const onAbort = () => {
+      if (mode === "fail-fast") {
+        finish(new Err(new AbortError(signal?.reason)));
+        return;
+      }
+      for (; next < tasks.length; next++) {
+        results[next] = new Err(new AbortError(signal?.reason));
+      }
+      abortRunning();
+      if (running.size === 0) {
+        finish();
+      }
+    };
+
+    const run = (index: number) => {
+      const controller = new AbortController();
+      running.set(index, controller);
+
+      startProducer(tasks[index] as ResultProducer, controller.signal).then(
+        (outcome) => {
+          running.delete(index);
+          if (finished) {
+            return;
+          }
+          const result = outcome as Result<unknown, unknown>;
+          results[index] = result;
+          if (mode === "fail-fast" && isErr(result)) {
+            finish(result);
+            return;
+          }
+          launch();
+        },
+        (error: unknown) => {
+          running.delete(index);
+          if (finished) {
+            return;
+          }
+          finished = true;
+          signal?.removeEventListener("abort", onAbort);
+          abortRunning();
+          reject(error);
+        }
+      );
+    };
+
+    const launch = () => {
+      while (running.size < limit && next < tasks.length) {
+        run(next++);
+      }
+      if (running.size === 0 && next === tasks.length) {
+        finish();
+      }
+    };
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener("abort", onAbort, { once: true });
+    launch();
+  });
+};
+
+type ValidationResult<R> = R extends readonly unknown[]
+  ? Validation<ValidatedValues<R>, ErrValue<R[number]>>
+  : Result<ValidatedValues<R>, ValidationErrors<R>>;
+
+/**
+ * Runs a promise-based operation, converting rejections to {@link Err}, and retries it.
+ *
+ * With a {@link RetryPolicy} the final {@link Err} is a {@link RetryError} holding
+ * the attempt count and every attempt's error, `catch` maps each of them and `try`
+ * receives an `AbortSignal`. With the legacy `retry` shorthand the final error is
+ * the last attempt's, `catch` maps only that one and `try` is called without arguments.
+ */
+function tryPromise<T, E = Error>(
+  config: TryPromisePolicyConfig<T, E>
+): AsyncResult<T, RetryError<E>>;
+function tryPromise<T, E = Error>(
+  config: TryPromiseConfig<T, E>
+): AsyncResult<T, E>;
+function tryPromise<T, E>(
+  config: TryPromiseConfig<T, E> | TryPromisePolicyConfig<T, E>
+): AsyncResult<T, E | RetryError<E>> {
+  return new AsyncResult(runTryPromise(config));
+}
+
+/**
+ * Runs tasks returning `Promise<Result>` with at most `concurrency` of them in
+ * flight and combines their outcomes in input order.
+ *
+ * In `"fail-fast"` mode (the default) it resolves with the first {@link Err} and
+ * aborts the running tasks through their `AbortSignal`, otherwise with an
+ * {@link Ok} of every value. In `"settle"` mode every task runs and the outcomes
+ * are partitioned into `{ ok, err }`. Aborting `signal` stops starting tasks and
+ * aborts the running ones; unstarted tasks fail with an {@link AbortError}.
+ * A task that throws or rejects rejects the returned value.
+ *
+ * @example
+ * ```ts
+ * const users = await ResultFactory.allAsync(
+ *   ids.map((id) => (signal: AbortSignal) => fetchUser(id, { signal })),
+ *   { concurrency: 10 }
+ * );
+ * ```
+ */
+function allAsync<const P extends readonly ResultProducer[]>(
+  tasks: P,
+  options: AllAsyncOptions & { mode: "settle" }
+): Promise<SettledResults<ProducedResults<P>>>;
+function allAsync<const P extends readonly ResultProducer[]>(
+  tasks: P,
+  options?: AllAsyncOptions & { mode?: "fail-fast" }
+): AsyncResult<
+  ValidatedValues<ProducedResults<P>>,
+  ErrValue<ProducedResults<P>[number]> | AbortError
+>;
+function allAsync(
+  tasks: readonly ResultProducer[],
+  options: AllAsyncOptions = {}
+): Promise<{ ok: unknown[]; err: unknown[] }> | AsyncResult<unknown, unknown> {
+  const outcome = runAllAsync(tasks, options);
+
+  if (options.mode === "settle") {
+    return outcome.then<{ ok: unknown[]; err: unknown[] }>(({ results }) =>
+      ResultFactory.partition(results as Result<unknown, unknown>[])
+    );
+  }
+
+  return new AsyncResult(
+    outcome.then(({ results, failure }): Result<unknown[], unknown> =>
+      failure
+        ? (failure as Result<unknown[], unknown>)
+        : new Ok(results.map((result) => result.unwrap()))
+    )
+  );
+}
+
+/**
+ * Generator function wrapper for imperative-style error handling.
+ *
+ * Both `Result` and `Option` values can be unwrapped with `yield*`. A {@link None}
+ * short-circuits the generator like an {@link Err}, producing a {@link NoneError}
+ * unless `options.noneError` supplies a different error. To pick the error at a
+ * single yield site, convert the option there with `okOr`/`okOrElse`.
+ *
+ * @example
+ * ```ts
+ * const getOwner = gen(function* (petId: string) {
+ *   const pet = yield* fromNullable(pets.get(petId)); // Option<Pet>
+ *   const owner = yield* findOwner(pet.ownerId); // Result<Owner, DbError>
+ *   return ok(owner);
+ * });
+ *
+ * getOwner("7"); // Result<Owner, DbError | NoneError>
+ * ```
+ */
+function gen<
+  Y extends Result<unknown, unknown> | None,
+  T,
+  E,
+  Args extends unknown[],
+  N = NoneError,
+>(
+  generatorFn: (...args: Args) => Generator<Y, Result<T, E>, unknown>,
+  options?: GenOptions<N>
+): (...args: Args) => Result<T, E | YieldedError<Y, N>>;
+/**
+ * The signature taking explicit `<T, E, Args>` type arguments, kept for existing callers.
+ */
+function gen<T, E, Args extends unknown[]>(
+  generatorFn: (
+    ...args: Args
+  ) => Generator<Result<unknown, E>, Result<T, E>, unknown>
+): (...args: Args) => Result<T, E>;
+function gen<
+  Y extends Result<unknown, unknown> | None,
+  T,
+  E,
+  Args extends unknown[],
+  N,
+>(
+  generatorFn: (...args: Args) => Generator<Y, Result<T, E>, unknown>,
+  options?: GenOptions<N>
+): (...args: Args) => Result<T, E | YieldedError<Y, N>> {
+  return (...args: Args): Result<T, E | YieldedError<Y, N>> => {
+    const generator = generatorFn(...args);
+
+    try {
+      let next = generator.next();
+
+      while (!next.done) {
+        const yielded = next.value;
+
+        if (isErr(yielded)) {
+          return yielded as Err<T, YieldedError<Y, N>>;
+        }
+        if (isNone(yielded)) {
+          return noneToErr(options) as Result<T, YieldedError<Y, N>>;
+        }
+        next = generator.next(
+          (yielded as Ok<unknown, unknown> | Some<unknown>).value
+        );
+      }
+
+      return next.value;
+    } finally {
+      // Runs the generator's `finally` blocks when it was left suspended.
+      generator.return(undefined as unknown as Result<T, E>);
+    }
+  };
+}
+
+/**
+ * Combines Results into a single Result, returning the first error encountered if any.
+ * Accepts an array, a tuple or a record of Results and preserves its shape:
+ * `all([user, orders])` gives `Result<[User, Order[]], A | B>` and
+ * `all({ user, orders })` gives `Result<{ user: User; orders: Order[] }, A | B>`.
+ */
+function all<const R extends readonly AnyResult[] | Record<string, AnyResult>>(
+  results: R
+): Result<ValidatedValues<R>, ErrValue<Entry<R>>>;
+/**
+ * The signature taking explicit `<T, E>` type arguments, kept for existing callers.
+ */
+function all<T, E>(results: Result<T, E>[]): Result<T[], E>;
+function all<const R extends readonly AnyResult[] | Record<string, AnyResult>>(
+  results: R
+): Result<ValidatedValues<R>, ErrValue<Entry<R>>> {
+  if (Array.isArray(results)) {
+    const values: unknown[] = [];
+
+    for (const result of results as readonly unknown[]) {
+      if (!isOk(result)) {
+        return expectErr(result) as Result<
+          ValidatedValues<R>,
+          ErrValue<Entry<R>>
+        >;
+      }
+      values.push(result.value);
+    }
+
+    return new Ok(values as ValidatedValues<R>);
+  }
+
+  const values: Record<string, unknown> = {};
+
+  for (const [key, result] of Object.entries(
+    results as Record<string, unknown>
+  )) {
+    if (!isOk(result)) {
+      return expectErr(result) as Result<
+        ValidatedValues<R>,
+        ErrValue<Entry<R>>
+      >;
+    }
+    values[key] = result.value;
+  }
+
+  return new Ok(values as ValidatedValues<R>);
+}
+
+/**
+ * Separates Results into success values and errors. Arrays and tuples give
+ * arrays of values and errors; records give the values and errors keyed by field.
+ */
+function partition<
+  const R extends readonly AnyResult[] | Record<string, AnyResult>,
+>(results: R): Partitioned<R>;
+/**
+ * The signature taking explicit `<T, E>` type arguments, kept for existing callers.
+ */
+function partition<T, E>(results: Result<T, E>[]): { ok: T[]; err: E[] };
+function partition<
+  const R extends readonly AnyResult[] | Record<string, AnyResult>,
+>(results: R): Partitioned<R> {
+  if (Array.isArray(results)) {
+    const okValues: unknown[] = [];
+    const errValues: unknown[] = [];
+
+    for (const result of results as readonly Result<unknown, unknown>[]) {
+      if (isOk(result)) {
+        okValues.push(result.value);
+      } else {
+        errValues.push(expectErr(result).error);
+      }
+    }
+
+    return { ok: okValues, err: errValues } as Partitioned<R>;
+  }
+
+  const okValues: Record<string, unknown> = {};
+  const errValues: Record<string, unknown> = {};
+
+  for (const [key, result] of Object.entries(
+    results as Record<string, Result<unknown, unknown>>
+  )) {
+    if (isOk(result)) {
+      okValues[key] = result.value;
+    } else {
+      errValues[key] = expectErr(result).error;
+    }
+  }
+
+  return { ok: okValues, err: errValues } as Partitioned<R>;
+}
+
 export const ResultFactory = {
   /**
    * Creates an {@link Ok} result.
@@ -257,6 +1193,26 @@ export const ResultFactory = {
    */
   err: <T = never, E = unknown>(error: E): Result<T, E> => new Err(error),
 
+  /**
+   * Revives a {@link Result} from its JSON wire format, given either as a JSON string
+   * or as an already parsed value. Optional decoders validate the contained value and error.
+   *
+   * Returns an {@link Err} holding a {@link DecodeError} when the input is malformed
+   * or a decoder rejects it.
+   *
+   * @example
+   * ```ts
+   * const revived = ResultFactory.fromJSON(body, {
+   *   value: (raw) => (typeof raw === "number" ? ok(raw) : err("not a number")),
+   * });
+   * // Result<Result<number, unknown>, DecodeError>
+   * ```
+   */
+  fromJSON: <T = unknown, E = unknown>(
+    json: unknown,
+    decoders?: ResultDecoders<T, E>
+  ): Result<Result<T, E>, DecodeError> => decodeResult(json, decoders),
+
   /**
    * Executes a function and captures any thrown errors as {@link Err}.
    */
@@ -269,117 +1225,296 @@ export const ResultFactory = {
   },
 
   /**
-   * Converts a Promise to a {@link Result}.
+   * Converts a Promise to an {@link AsyncResult}, capturing rejections as {@link Err}.
    */
-  fromPromise: async <T, E = Error>(
-    promise: Promise<T>
-  ): Promise<Result<T, E>> => {
-    try {
-      const value = await promise;
-      return new Ok(value);
-    } catch (error) {
-      return new Err(error as E);
-    }
-  },
+  fromPromise: <T, E = Error>(promise: PromiseLike<T>): AsyncResult<T, E> =>
+    AsyncResultFactory.fromPromise(promise),
+
+  gen,
 
   /**
-   * Generator function wrapper for imperative-style error handling.
+   * Async generator function wrapper for imperative-style error handling.
+   *
+   * Works like {@link ResultFactory.gen}, but drives an `async function*` so
+   * I/O can happen between steps. `Result`, `AsyncResult` and `Option` values are
+   * unwrapped with `yield*`, and `Promise<Result>` values with `yield* await`.
+   *
+   * @example
+   * ```ts
+   * const loadUser = genAsync(async function* (id: string) {
+   *   const row = yield* await findRow(id);
+   *   const user = yield* parseUser(row);
+   *   return ok(user);
+   * });
+   *
+   * const result = await loadUser("42"); // Result<User, DbError | ParseError>
+   * ```
    */
-  gen: <T, E, Args extends unknown[]>(
-    generatorFn: (
-      ...args: Args
-    ) => Generator<Result<unknown, E>, Result<T, E>, unknown>
+  genAsync: <
+    Y extends Result<unknown, unknown> | None,
+    T,
+    E,
+    Args extends unknown[],
+    N = NoneError,
+  >(
+    generatorFn: (...args: Args) => AsyncGenerator<Y, Result<T, E>, unknown>,
+    options?: GenOptions<N>
   ) => {
-    return (...args: Args): Result<T, E> => {
+    return async (
+      ...args: Args
+    ): Promise<Result<T, E | YieldedError<Y, N>>> => {
       const generator = generatorFn(...args);
-      let next = generator.next();
 
-      while (!next.done) {
-        const result = next.value;
-
-        if (result instanceof Err) {
-          return result as unknown as Result<T, E>;
+      try {
+        let next = await generator.next();
+
+        while (!next.done) {
+          const yielded = next.value;
+
+          if (isErr(yielded)) {
+            return yielded as Err<T, YieldedError<Y, N>>;
+          }
+          if (isNone(yielded)) {
+            return noneToErr(options) as Result<T, YieldedError<Y, N>>;
+          }
+          next = await generator.next(
+            (yielded as Ok<unknown, unknown> | Some<unknown>).value
+          );
         }
-        next = generator.next((result as Ok<unknown, E>).value);
-      }
 
-      return next.value;
+        return next.value;
+      } finally {
+        // Runs the generator's `finally` blocks when it was left suspended.
+        await generator.return(undefined as unknown as Result<T, E>);
+      }
     };
   },
 
   /**
-   * Retries a promise-based operation with configurable backoff.
+   * Acquires a resource, uses it and always releases it, whether `use` returns
+   * {@link Ok}, returns {@link Err} or throws. `release` is not called when `acquire` fails.
+   *
+   * If `release` returns an {@link Err}, the result becomes an {@link Err} holding a
+   * {@link ReleaseError}, with the error from `use` (if any) kept as `suppressed`.
+   * When `use` threw, that {@link ReleaseError} is thrown instead. When `release`
+   * itself throws, a {@link ReleaseError} with the thrown value as `cause` is thrown.
+   *
+   * @example
+   * ```ts
+   * const rows = bracket({
+   *   acquire: () => openConnection(url),
+   *   use: (conn) => conn.query("SELECT * FROM users"),
+   *   release: (conn) => conn.close(),
+   * });
+   * ```
    */
-  tryPromise: async <T, E = Error>(config: {
-    try: () => Promise<T>;
-    catch?: (error: unknown) => E;
-    retry?: {
-      times: number;
-      delayMs: number;
-      backoff?: "linear" | "exponential";
-    };
-  }): Promise<Result<T, E>> => {
-    const { try: tryFn, catch: catchFn, retry } = config;
-    const maxAttempts = retry ? retry.times + 1 : 1;
+  bracket: <R, T, E, F, RE = never>(config: {
+    acquire: () => Result<R, E>;
+    use: (resource: R) => Result<T, F>;
+    release: (resource: R) => Result<unknown, RE> | void;
+  }): Result<T, E | F | ReleaseError<RE>> => {
+    const acquired = config.acquire();
+
+    if (acquired.isErr()) {
+      return deriveErr(acquired.error, acquired);
+    }
 
-    for (let attempt = 0; attempt < maxAttempts; attempt++) {
-      try {
-        const value = await tryFn();
-        return new Ok(value);
-      } catch (error) {
-        const isLastAttempt = attempt === maxAttempts - 1;
-
-        if (isLastAttempt) {
-          const mappedError = catchFn ? catchFn(error) : (error as E);
-          return new Err(mappedError);
-        }
+    const resource = acquired.value;
+    let outcome: Result<T, F>;
 
-        if (retry) {
-          const delay =
-            retry.backoff === "exponential"
-              ? retry.delayMs * Math.pow(2, attempt)
-              : retry.delayMs;
+    try {
+      outcome = config.use(resource);
+    } catch (error) {
+      const released = releaseSync(config.release, resource, error);
 
-          await new Promise((resolve) => setTimeout(resolve, delay));
-        }
+      if (isErr(released)) {
+        throw new ReleaseError(released.error as RE, error);
       }
+      throw error;
     }
 
-    return new Err(new Error("Unexpected retry error") as E);
+    const released = releaseSync(
+      config.release,
+      resource,
+      outcome.isErr() ? outcome.error : undefined
+    );
+
+    if (isErr(released)) {
+      return new Err(
+        new ReleaseError(
+          released.error as RE,
+          outcome.isErr() ? outcome.error : undefined
+        )
+      );
+    }
+
+    return outcome;
   },
 
   /**
-   * Combines an array of Results into a single Result containing an array of values.
-   * Returns the first error encountered if any.
+   * Async version of {@link ResultFactory.bracket}. Every step may return a
+   * {@link Result}, a `Promise<Result>` or an {@link AsyncResult}.
    */
-  all: <T, E>(results: Result<T, E>[]): Result<T[], E> => {
-    const values: T[] = [];
+  bracketAsync: <R, T, E, F, RE = never>(config: {
+    acquire: () => Result<R, E> | PromiseLike<Result<R, E>>;
+    use: (resource: R) => Result<T, F> | PromiseLike<Result<T, F>>;
+    release: (
+      resource: R
+    ) => Result<unknown, RE> | PromiseLike<Result<unknown, RE> | void> | void;
+  }): AsyncResult<T, E | F | ReleaseError<RE>> =>
+    new AsyncResult(
+      (async (): Promise<Result<T, E | F | ReleaseError<RE>>> => {
+        const acquired = await config.acquire();
+
+        if (acquired.isErr()) {
+          return deriveErr(acquired.error, acquired);
+        }
+
+        const resource = acquired.value;
+        let outcome: Result<T, F>;
+
+        try {
+          outcome = await config.use(resource);
+        } catch (error) {
+          const released = await releaseAsync(config.release, resource, error);
+
+          if (isErr(released)) {
+            throw new ReleaseError(released.error as RE, error);
+          }
+          throw error;
+        }
+
+        const released = await releaseAsync(
+          config.release,
+          resource,
+          outcome.isErr() ? outcome.error : undefined
+        );
+
+        if (isErr(released)) {
+          return new Err(
+            new ReleaseError(
+              released.error as RE,
+              outcome.isErr() ? outcome.error : undefined
+            )
+          );
+        }
+
+        return outcome;
+      })()
+    ),
 
-    for (const result of results) {
-      if (result.isErr()) {
-        return result as Result<T[], E>;
+  tryPromise,
+
+  all,
+
+  allAsync,
+
+  /**
+   * Returns the first {@link Ok} among the Results, or an {@link Err} holding
+   * every error in order when none succeeded.
+   */
+  any: <const R extends readonly AnyResult[]>(
+    results: R
+  ): Result<OkValue<R[number]>, AnyErrors<R>> => {
+    const errors: unknown[] = [];
+
+    for (const check of results) {
+      const result = check as Result<unknown, unknown>;
+      if (isOk(result)) {
+        return result as Result<OkValue<R[number]>, AnyErrors<R>>;
       }
-      values.push(result.value);
+      errors.push(expectErr(result).error);
     }
 
-    return new Ok(values);
+    return new Err(errors as AnyErrors<R>);
   },
 
   /**
-   * Separates a list of Results into success values and errors.
+   * Starts every producer at once and resolves with the first {@link Ok},
+   * aborting the producers that are still running through their `AbortSignal`.
+   * Resolves with an {@link Err} holding every error in order when none succeeded.
+   * A producer that throws or rejects rejects the returned {@link AsyncResult}.
+   *
+   * @example
+   * ```ts
+   * const user = await ResultFactory.anyAsync([
+   *   (signal) => readCache(id, { signal }),
+   *   (signal) => readReplica("eu", id, { signal }),
+   *   (signal) => readReplica("us", id, { signal }),
+   * ]);
+   * ```
    */
-  partition: <T, E>(results: Result<T, E>[]): { ok: T[]; err: E[] } => {
-    const okValues: T[] = [];
-    const errValues: E[] = [];
+  anyAsync: <const P extends readonly ResultProducer[]>(
+    producers: P,
+    options: AnyAsyncOptions = {}
+  ): AsyncResult<
+    OkValue<ProducedResults<P>[number]>,
+    AnyErrors<ProducedResults<P>>
+  > =>
+    new AsyncResult(
+      runAnyAsync(producers, options) as Promise<
+        Result<
+          OkValue<ProducedResults<P>[number]>,
+          AnyErrors<ProducedResults<P>>
+        >
+      >
+    ),
 
-    for (const result of results) {
-      if (result.isOk()) {
-        okValues.push(result.value);
+  /**
+   * Combines independent checks, collecting every error instead of stopping at
+   * the first one. Accepts an array (or tuple) of Results, failing with a
+   * non-empty array of errors, or a record of Results, failing with the errors
+   * keyed by field. Returns {@link Ok} with the combined values only when every
+   * check passed.
+   *
+   * @example
+   * ```ts
+   * const form = ResultFactory.validateAll({
+   *   name: validateName(input.name),
+   *   age: validateAge(input.age),
+   * });
+   * // Result<{ name: string; age: number }, { name?: NameError; age?: AgeError }>
+   * ```
+   */
+  validateAll: <
+    const R extends readonly AnyResult[] | Record<string, AnyResult>,
+  >(
+    checks: R
+  ): ValidationResult<R> => {
+    if (Array.isArray(checks)) {
+      const values: unknown[] = [];
+      const errors: unknown[] = [];
+
+      for (const check of checks as readonly Result<unknown, unknown>[]) {
+        if (isOk(check)) {
+          values.push(check.value);
+        } else {
+          errors.push(expectErr(check).error);
+        }
+      }
+
+      return (
+        errors.length > 0 ? new Err(errors) : new Ok(values)
+      ) as ValidationResult<R>;
+    }
+
+    const values: Record<string, unknown> = {};
+    const errors: Record<string, unknown> = {};
+    let failed = false;
+
+    for (const [key, check] of Object.entries(
+      checks as Record<string, Result<unknown, unknown>>
+    )) {
+      if (isOk(check)) {
+        values[key] = check.value;
       } else {
-        errValues.push(result.error);
+        errors[key] = expectErr(check).error;
+        failed = true;
       }
     }
 
-    return { ok: okValues, err: errValues };
+    return (failed ? new Err(errors) : new Ok(values)) as ValidationResult<R>;
   },
+
+  partition,
 };
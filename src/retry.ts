@@ -0,0 +1,255 @@
+import { systemClock, sleep, type Clock } from "./clock";
+import { AbortError, TimeoutError } from "./errors";
+import { RETRY_POLICY_BRAND } from "./guards";
+
+/**
+ * Details passed to {@link RetryPolicyOptions.onRetry} before waiting for the next attempt.
+ */
+export interface RetryEvent<E> {
+  /**
+   * The error of the attempt that just failed.
+   */
+  error: E;
+  /**
+   * The number of the attempt that just failed, starting at 1.
+   */
+  attempt: number;
+  /**
+   * How long the policy waits before the next attempt.
+   */
+  delayMs: number;
+}
+
+/**
+ * Configuration of a {@link RetryPolicy}.
+ */
+export interface RetryPolicyOptions<E> {
+  /**
+   * Maximum number of retries after the first attempt.
+   */
+  times: number;
+  /**
+   * Base delay between attempts. Defaults to `0`.
+   */
+  delayMs?: number;
+  /**
+   * How the delay grows with each retry: `"constant"` (the default) keeps
+   * `delayMs`, `"linear"` multiplies it by the attempt number and
+   * `"exponential"` doubles it after every attempt.
+   */
+  backoff?: "constant" | "linear" | "exponential";
+  /**
+   * Upper bound for the delay, applied before jitter.
+   */
+  maxDelayMs?: number;
+  /**
+   * Randomizes delays so that clients don't retry in lockstep: `"full"` picks a
+   * delay between 0 and the computed delay, `"equal"` between half of it and all of it.
+   * Defaults to `"none"`.
+   */
+  jitter?: "none" | "full" | "equal";
+  /**
+   * Decides whether an error is worth retrying. Defaults to retrying every error.
+   */
+  shouldRetry?: (error: E, attempt: number) => boolean;
+  /**
+   * Fails an attempt with a {@link TimeoutError} when it runs longer than this,
+   * aborting the signal it received.
+   */
+  timeoutMs?: number;
+  /**
+   * Called after a failed attempt, before waiting for the next one.
+   */
+  onRetry?: (event: RetryEvent<E>) => void;
+  /**
+   * Aborts the running attempt and stops retrying.
+   */
+  signal?: AbortSignal;
+  /**
+   * Time source for delays and timeouts. Defaults to {@link systemClock}.
+   */
+  clock?: Clock;
+  /**
+   * Source of randomness for jitter, returning a number in `[0, 1)`. Defaults to `Math.random`.
+   */
+  random?: () => number;
+}
+
+/**
+ * A reusable description of how to retry a failing async operation. Define it
+ * once and share it between calls to {@link ResultFactory.tryPromise}.
+ *
+ * @example
+ * ```ts
+ * const policy = new RetryPolicy<HttpError>({
+ *   times: 5,
+ *   delayMs: 100,
+ *   backoff: "exponential",
+ *   maxDelayMs: 5_000,
+ *   jitter: "full",
+ *   shouldRetry: (error) => error.status >= 500,
+ * });
+ *
+ * const user = await tryPromise({ try: fetchUser, catch: toHttpError, retry: policy });
+ * // AsyncResult<User, RetryError<HttpError>>
+ * ```
+ */
+export class RetryPolicy<E = unknown> {
+  constructor(readonly options: RetryPolicyOptions<E>) {}
+
+  get [RETRY_POLICY_BRAND](): true {
+    return true;
+  }
+
+  /**
+   * Returns a copy of this policy with some options replaced, e.g. to attach a
+   * per-call `signal` to a shared policy.
+   */
+  with(overrides: Partial<RetryPolicyOptions<E>>): RetryPolicy<E> {
+    return new RetryPolicy({ ...this.options, ...overrides });
+  }
+
+  /**
+   * Returns `true` if another attempt should follow the failed `attempt` (starting at 1).
+   */
+  shouldRetry(error: E, attempt: number): boolean {
+    const { times, shouldRetry } = this.options;
+    return (
+      attempt <= times && (shouldRetry ? shouldRetry(error, attempt) : true)
+    );
+  }
+
+  /**
+   * Returns how long to wait after the failed `attempt` (starting at 1).
+   */
+  delayFor(attempt: number): number {
+    const {
+      delayMs = 0,
+      backoff = "constant",
+      maxDelayMs = Infinity,
+      jitter = "none",
+      random = Math.random,
+    } = this.options;
+
+    const base =
+      backoff === "exponential"
+        ? delayMs * Math.pow(2, attempt - 1)
+        : backoff === "linear"
+          ? delayMs * attempt
+          : delayMs;
+    const capped = Math.min(base, maxDelayMs);
+
+    switch (jitter) {
+      case "full":
+        return random() * capped;
+      case "equal":
+        return capped / 2 + (random() * capped) / 2;
+      default:
+        return capped;
+    }
+  }
+}
+
+const runAttempt = <T>(
+  run: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number | undefined,
+  clock: Clock,
+  signal: AbortSignal | undefined
+): Promise<T> => {
+  const controller = new AbortController();
+  let handle: unknown;
+  let onAbort: (() => void) | undefined;
+
+  const attempt = new Promise<T>((resolve, reject) => {
+    onAbort = () => {
+      controller.abort(signal?.reason);
+      reject(new AbortError(signal?.reason));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    if (timeoutMs !== undefined) {
+      handle = clock.setTimeout(() => {
+        const error = new TimeoutError(timeoutMs);
+        controller.abort(error);
+        reject(error);
+      }, timeoutMs);
+    }
+
+    Promise.resolve()
+      .then(() => run(controller.signal))
+      .then(resolve, reject);
+  });
+
+  return attempt.finally(() => {
+    if (handle !== undefined) {
+      clock.clearTimeout(handle);
+    }
+    if (onAbort) {
+      signal?.removeEventListener("abort", onAbort);
+    }
+  });
+};
+
+/**
+ * How {@link runWithPolicy} ended: the value of the successful attempt, or the
+ * number of attempts made and the error of each.
+ */
+export type RetryOutcome<T, E> =
+  { ok: true; value: T } | { ok: false; attempts: number; errors: E[] };
+
+/**
+ * Runs `run` until it succeeds or `policy` gives up. Backs {@link ResultFactory.tryPromise}.
+ *
+ * Returns the raw outcome rather than a Result, so that callers create the
+ * final Err themselves and the `onErr` hook sees the error they return.
+ */
+export const runWithPolicy = async <T, E>(
+  run: (signal: AbortSignal) => Promise<T>,
+  mapError: (error: unknown) => E,
+  policy: RetryPolicy<E>
+): Promise<RetryOutcome<T, E>> => {
+  const { timeoutMs, onRetry, signal, clock = systemClock } = policy.options;
+  const errors: E[] = [];
+
+  // Whenever the signal stops the loop, `errors` ends with an AbortError and
+  // `attempts` counts the calls to `run` made so far.
+  const abort = (attempts: number): RetryOutcome<T, E> => {
+    errors.push(mapError(new AbortError(signal?.reason)));
+    return { ok: false, attempts, errors };
+  };
+
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) {
+      return abort(attempt - 1);
+    }
+
+    try {
+      return {
+        ok: true,
+        value: await runAttempt(run, timeoutMs, clock, signal),
+      };
+    } catch (thrown) {
+      const error = mapError(thrown);
+      errors.push(error);
+
+      if (signal?.aborted) {
+        return thrown instanceof AbortError
+          ? { ok: false, attempts: attempt, errors }
+          : abort(attempt);
+      }
+
+      if (!policy.shouldRetry(error, attempt)) {
+        return { ok: false, attempts: attempt, errors };
+      }
+
+      const delayMs = policy.delayFor(attempt);
+      onRetry?.({ error, attempt, delayMs });
+
+      try {
+        await sleep(delayMs, { clock, signal });
+      } catch {
+        return abort(attempt);
+      }
+    }
+  }
+};
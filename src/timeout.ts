@@ -0,0 +1,183 @@
+import { AsyncResult } from "./async-result";
+import { systemClock, type Clock } from "./clock";
+import { TimeoutError } from "./errors";
+import { Err, type Result } from "./result";
+
+/**
+ * Work bounded by {@link withTimeout}: a pending Result, or a function starting
+ * it that should stop when `signal` aborts.
+ */
+export type TimedWork<T, E> =
+  | PromiseLike<Result<T, E>>
+  | ((signal: AbortSignal) => PromiseLike<Result<T, E>>);
+
+/**
+ * Options for {@link withTimeout}.
+ */
+export interface WithTimeoutOptions {
+  /**
+   * Time source for the timer. Defaults to {@link systemClock}.
+   */
+  clock?: Clock;
+  /**
+   * Aborts the work early, e.g. when the caller goes away.
+   */
+  signal?: AbortSignal;
+}
+
+const runWithTimeout = <T, E>(
+  work: TimedWork<T, E>,
+  ms: number,
+  options: WithTimeoutOptions
+): Promise<Result<T, E | TimeoutError>> => {
+  const { clock = systemClock, signal } = options;
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener("abort", onAbort, { once: true });
+  }
+
+  return new Promise<Result<T, E | TimeoutError>>((resolve, reject) => {
+    const handle = clock.setTimeout(() => {
+      const error = new TimeoutError(ms);
+      signal?.removeEventListener("abort", onAbort);
+      controller.abort(error);
+      resolve(new Err(error));
+    }, ms);
+    const cleanup = () => {
+      clock.clearTimeout(handle);
+      signal?.removeEventListener("abort", onAbort);
+    };
+
+    Promise.resolve()
+      .then(() => (typeof work === "function" ? work(controller.signal) : work))
+      .then(
+        (result) => {
+          cleanup();
+          resolve(result);
+        },
+        (error: unknown) => {
+          cleanup();
+          reject(error);
+        }
+      );
+  });
+};
+
+/**
+ * Bounds how long an async Result may take. Resolves with an {@link Err} holding a
+ * {@link TimeoutError} when `ms` elapses first, aborting the `AbortSignal` passed
+ * to `work`. The timer is always cleared once the work settles.
+ *
+ * @example
+ * ```ts
+ * const user = await withTimeout(
+ *   (signal) => fromPromise(fetch(`/users/${id}`, { signal })),
+ *   5_000
+ * ); // Result<Response, Error | TimeoutError>
+ * ```
+ */
+export const withTimeout = <T, E>(
+  work: TimedWork<T, E>,
+  ms: number,
+  options: WithTimeoutOptions = {}
+): AsyncResult<T, E | TimeoutError> =>
+  new AsyncResult(runWithTimeout(work, ms, options));
+
+/**
+ * A time budget shared by every step of a workflow. Created by {@link deadline}.
+ */
+export interface Deadline {
+  /**
+   * Aborts with a {@link TimeoutError} when the budget runs out. Pass it to
+   * `allAsync`, `tryPromise` policies or `fetch` to stop their work.
+   */
+  readonly signal: AbortSignal;
+  /**
+   * Milliseconds left in the budget, never negative.
+   */
+  remaining(): number;
+  /**
+   * Returns `true` once the budget has run out.
+   */
+  expired(): boolean;
+  /**
+   * Runs `work` with a timeout of the remaining budget. Resolves with an
+   * {@link Err} holding a {@link TimeoutError} without starting the work when
+   * the budget has already run out.
+   */
+  run<T, E>(work: TimedWork<T, E>): AsyncResult<T, E | TimeoutError>;
+  /**
+   * Clears the deadline's timer. Call it once the workflow is done.
+   */
+  dispose(): void;
+}
+
+/**
+ * Creates a {@link Deadline} of `ms` milliseconds from now, so that a whole
+ * workflow shares one remaining-time budget instead of giving each step its own timeout.
+ *
+ * The deadline's timer does not keep a Node process alive, and is cleared by
+ * {@link Deadline.dispose}.
+ *
+ * @example
+ * ```ts
+ * const budget = deadline(2_000);
+ * try {
+ *   return await genAsync(async function* () {
+ *     const user = yield* await budget.run((signal) => fetchUser(id, signal));
+ *     const orders = yield* await allAsync(orderTasks(user), { signal: budget.signal });
+ *     return ok({ user, orders });
+ *   })();
+ * } finally {
+ *   budget.dispose();
+ * }
+ * ```
+ */
+export const deadline = (
+  ms: number,
+  options: WithTimeoutOptions = {}
+): Deadline => {
+  const { clock = systemClock, signal } = options;
+  const controller = new AbortController();
+  const expiresAt = clock.now() + ms;
+  const onAbort = () => controller.abort(signal?.reason);
+
+  const handle = clock.setTimeout(
+    () => controller.abort(new TimeoutError(ms)),
+    ms
+  );
+  (handle as { unref?: () => void } | undefined)?.unref?.();
+
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener("abort", onAbort, { once: true });
+  }
+
+  const remaining = () => Math.max(0, expiresAt - clock.now());
+
+  return {
+    signal: controller.signal,
+    remaining,
+    expired: () => remaining() === 0 || controller.signal.aborted,
+    run: <T, E>(work: TimedWork<T, E>): AsyncResult<T, E | TimeoutError> => {
+      if (remaining() === 0) {
+        return new AsyncResult(
+          Promise.resolve(new Err<T, E | TimeoutError>(new TimeoutError(ms)))
+        );
+      }
+      return withTimeout(work, remaining(), {
+        clock,
+        signal: controller.signal,
+      });
+    },
+    dispose: () => {
+      clock.clearTimeout(handle);
+      signal?.removeEventListener("abort", onAbort);
+    },
+  };
+};